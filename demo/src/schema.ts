@@ -7,7 +7,11 @@ import {
   queryField,
 } from "nexus";
 import { lowercase, trim } from "nexus-args-validator/dist/transformers";
-import { nonEmpty, rangeSize } from "nexus-args-validator/dist//validators";
+import {
+  nonEmpty,
+  rangeSize,
+  unique,
+} from "nexus-args-validator/dist//validators";
 
 export interface IUser {
   firstName: string;
@@ -95,11 +99,17 @@ export const UserCreateInput = inputObjectType({
     t.nonNull.string("firstName");
     t.nonNull.string("lastName");
     t.nonNull.string("username");
-    t.nonNull.string("email");
+    t.nonNull.string("email", { validate: rangeSize(5, 20) });
     t.field("profile", {
       type: "ProfileCreateInput",
     });
   },
+
+  // Applies to every argument of type UserCreateInput
+  transform: {
+    firstName: trim,
+    lastName: trim,
+  },
 });
 
 export const UsersQuery = queryField("users", {
@@ -117,8 +127,6 @@ export const CreateUserMutation = mutationField("createUser", {
 
   transform: () => ({
     userCreateInput: {
-      firstName: trim,
-      lastName: trim,
       username: [
         lowercase,
 
@@ -137,7 +145,6 @@ export const CreateUserMutation = mutationField("createUser", {
     userCreateInput: {
       firstName: rangeSize(8, 12),
       lastName: nonEmpty(),
-      email: rangeSize(5, 20),
       username: [
         (arg) => {
           // Username can not be "unknown"
@@ -155,6 +162,7 @@ export const CreateUserMutation = mutationField("createUser", {
       ],
       profile: {
         bio: rangeSize(10, 100),
+        teamsIds: unique(),
       },
     },
   }),
@@ -0,0 +1,139 @@
+import { completeValue, MaybePromise } from "nexus/dist/core";
+
+import {
+  applyTransforms,
+  BaseTransformerTree,
+  BaseValidatorTree,
+  ErrorsTree,
+  findErrors,
+  GeneralArgsValue,
+} from ".";
+import { localizeErrorsTree, MessagesConfig } from "./messages";
+
+/**
+ * Transformation of an args schema. It can be computed from the (original) args and the context
+ */
+export type ArgsSchemaTransform<Args extends GeneralArgsValue, Ctx> =
+  | BaseTransformerTree<Args>
+  | ((args: Args, ctx: Ctx) => BaseTransformerTree<Args>);
+
+/**
+ * Validation of an args schema. It can be computed from the (transformed) args and the context
+ */
+export type ArgsSchemaValidate<Args extends GeneralArgsValue, Ctx> =
+  | BaseValidatorTree<Args, Args>
+  | ((args: Args, ctx: Ctx) => BaseValidatorTree<Args, Args>);
+
+export interface ArgsSchemaConfig<Args extends GeneralArgsValue, Ctx> {
+  transform?: ArgsSchemaTransform<Args, Ctx>;
+  validate?: ArgsSchemaValidate<Args, Ctx>;
+  /**
+   * Stop validation after the first error
+   *
+   * @default false
+   */
+  abortEarly?: boolean;
+  /**
+   * Milliseconds within which each async validator and transformer has to finish (See `argsValidatorPlugin`)
+   */
+  timeout?: number;
+  /**
+   * @default "validation-timeout"
+   */
+  timeoutErrorCode?: string;
+  /**
+   * Attach human-readable messages to validation errors (See `argsValidatorPlugin`)
+   */
+  messages?: MessagesConfig & {
+    getLocale?: (ctx: Ctx) => string | null | undefined;
+  };
+}
+
+export type ArgsParseResult<Args> =
+  | { ok: true; value: Args }
+  | { ok: false; errors: ErrorsTree };
+
+export interface ArgsSchema<Args extends GeneralArgsValue, Ctx = unknown> {
+  /**
+   * Transforms then validates {@link args}. {@link args} are not mutated
+   */
+  parse(args: Args, ctx?: Ctx): MaybePromise<ArgsParseResult<Args>>;
+}
+
+/**
+ * Rule trees that can be used outside of Nexus resolvers (e.g. REST endpoints, queue consumers, scripts)
+ *
+ * @example
+ * ```
+ * const signUpSchema = createArgsSchema<{ email: string; password: string }>({
+ *   transform: { email: [trim, lowercase] },
+ *   validate: { email: email(), password: minSize(8) },
+ * });
+ *
+ * const result = await signUpSchema.parse(req.body);
+ * if (!result.ok) res.status(400).json(result.errors);
+ * ```
+ */
+export function createArgsSchema<Args extends GeneralArgsValue, Ctx = unknown>({
+  transform,
+  validate,
+  abortEarly = false,
+  timeout,
+  timeoutErrorCode = "validation-timeout",
+  messages,
+}: ArgsSchemaConfig<Args, Ctx>): ArgsSchema<Args, Ctx> {
+  return {
+    parse(args, ctx) {
+      const transformerTree =
+        typeof transform === "function"
+          ? transform(args, ctx as Ctx)
+          : transform;
+
+      const transformedArgsOrPromise = transformerTree
+        ? (applyTransforms(
+            args,
+            transformerTree,
+            timeout
+          ) as MaybePromise<Args>)
+        : args;
+
+      return completeValue(transformedArgsOrPromise, (transformedArgs) => {
+        const validatorTree =
+          typeof validate === "function"
+            ? validate(transformedArgs, ctx as Ctx)
+            : validate;
+
+        if (!validatorTree) {
+          return { ok: true as const, value: transformedArgs };
+        }
+
+        return completeValue(
+          findErrors(
+            transformedArgs,
+            validatorTree,
+            abortEarly,
+            timeout === undefined
+              ? undefined
+              : { ms: timeout, errorCode: timeoutErrorCode }
+          ),
+          (errorsTree): ArgsParseResult<Args> => {
+            if (!errorsTree) {
+              return { ok: true, value: transformedArgs };
+            }
+
+            return {
+              ok: false,
+              errors: messages
+                ? localizeErrorsTree(
+                    errorsTree,
+                    messages.getLocale && messages.getLocale(ctx as Ctx),
+                    messages
+                  )
+                : errorsTree,
+            };
+          }
+        );
+      });
+    },
+  };
+}
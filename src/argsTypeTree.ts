@@ -0,0 +1,287 @@
+import {
+  GraphQLFieldConfigArgumentMap,
+  GraphQLInputType,
+  isInputObjectType,
+  isListType,
+  isNonNullType,
+} from "graphql";
+import { getType } from "jest-get-type";
+
+import { ScalarRules, Validator } from ".";
+import { MaybeNull, TraversableObject } from "./types";
+import {
+  createEachNode,
+  getSelfValue,
+  isEachNode,
+  mergeNodes,
+  setSelfValue,
+  withSelfValue,
+} from "./utils";
+import { constraintsToValidators, getConstraints } from "./constraints";
+import { isOneOfInputType, oneOfInputValidator } from "./oneOf";
+import { nullable } from "./transformers";
+import { nullableValidator } from "./validators";
+
+/**
+ * Collects the validators/transformers declared on the input object types (and their fields) used by the args
+ * along with the validators compiled from the constraints of the args and the validators of "oneOf" input objects
+ * into a tree that can be merged with the field-level tree
+ */
+export function getArgsTypeTree(
+  argsConfig: GraphQLFieldConfigArgumentMap | undefined,
+  kind: "validate" | "transform"
+): MaybeNull<TraversableObject> {
+  if (!argsConfig) return null;
+
+  const inputTypeTrees = new Map<string, TraversableObject>();
+  let argsTree: MaybeNull<TraversableObject> = null;
+
+  for (const argName of Object.keys(argsConfig)) {
+    const argConfig = argsConfig[argName];
+
+    const node = withConstraintValidators(
+      getInputTypeNode(argConfig.type, kind, inputTypeTrees),
+      argConfig,
+      kind
+    );
+
+    if (node !== undefined) {
+      if (!argsTree) {
+        argsTree = {};
+      }
+      argsTree[argName] = node;
+    }
+  }
+
+  return argsTree;
+}
+
+/**
+ * @param inputTypeTrees Trees of already visited input object types. Needed for recursive input types
+ */
+function getInputTypeNode(
+  type: GraphQLInputType,
+  kind: "validate" | "transform",
+  inputTypeTrees: Map<string, TraversableObject>
+): unknown {
+  if (isNonNullType(type)) {
+    return getInputTypeNode(type.ofType, kind, inputTypeTrees);
+  }
+
+  if (isListType(type)) {
+    const elementNode = getInputTypeNode(type.ofType, kind, inputTypeTrees);
+    return elementNode === undefined ? undefined : createEachNode(elementNode);
+  }
+
+  if (!isInputObjectType(type)) {
+    return undefined;
+  }
+
+  const visitedTree = inputTypeTrees.get(type.name);
+  if (visitedTree) {
+    return visitedTree;
+  }
+
+  // Registered before traversing the fields, so that recursive references point to the same tree
+  const tree: TraversableObject = {};
+  inputTypeTrees.set(type.name, tree);
+
+  const fields = type.getFields();
+
+  for (const fieldName of Object.keys(fields)) {
+    const field = fields[fieldName];
+
+    const node = withConstraintValidators(
+      mergeNodes(
+        getInputTypeNode(field.type, kind, inputTypeTrees),
+        (field.extensions as TraversableObject | undefined)?.nexus?.config?.[
+          kind
+        ]
+      ),
+      field,
+      kind
+    );
+
+    if (node !== undefined) {
+      tree[fieldName] = node;
+    }
+  }
+
+  const typeTree: TraversableObject | undefined = (
+    type.extensions as TraversableObject | undefined
+  )?.nexus?.config?.[kind];
+
+  if (typeTree) {
+    for (const fieldName of Object.keys(typeTree)) {
+      tree[fieldName] = mergeNodes(tree[fieldName], typeTree[fieldName]);
+    }
+  }
+
+  // The object validator of the type (See `validateObject`) runs after the one of "oneOf" input objects
+  const objectValidators = [
+    ...(kind === "validate" && isOneOfInputType(type)
+      ? [oneOfInputValidator(type)]
+      : []),
+    ...toValidatorsArray(typeTree ? getSelfValue(typeTree) : undefined),
+  ];
+
+  if (objectValidators.length !== 0) {
+    setSelfValue(
+      tree,
+      objectValidators.length === 1 ? objectValidators[0] : objectValidators
+    );
+  }
+
+  return Object.keys(tree).length === 0 && getSelfValue(tree) === undefined
+    ? undefined
+    : tree;
+}
+
+/**
+ * Adds the validators compiled from the constraints of an argument/input field to its node.
+ * For lists, they apply to the list itself not its elements. They are ignored for input objects
+ */
+function withConstraintValidators(
+  node: unknown,
+  inputValue: Parameters<typeof getConstraints>[0],
+  kind: "validate" | "transform"
+): unknown {
+  if (kind !== "validate") return node;
+
+  const validators = constraintsToValidators(getConstraints(inputValue));
+
+  if (validators.length === 0 || node === undefined) {
+    return validators.length === 0 ? node : validators;
+  }
+
+  if (isEachNode(node)) {
+    return withSelfValue(node, [
+      ...validators,
+      ...toValidatorsArray(getSelfValue(node)),
+    ]);
+  }
+
+  if (getType(node) === "object") {
+    return node;
+  }
+
+  return [...validators, ...toValidatorsArray(node)];
+}
+
+function toValidatorsArray(validators: unknown): Validator<unknown>[] {
+  if (validators === undefined) return [];
+  return Array.isArray(validators)
+    ? validators
+    : [validators as Validator<unknown>];
+}
+
+/**
+ * Collects the rules of the scalar types of the args (and the fields of the input object types they use, at any nesting depth)
+ * into a tree that can be combined with the other trees. Rules of list elements apply to every element.
+ * Args and input fields with `skipScalarRules` are skipped
+ */
+export function getScalarRulesTree(
+  argsConfig: GraphQLFieldConfigArgumentMap | undefined,
+  kind: "validate" | "transform",
+  scalarRules: Record<string, ScalarRules>
+): MaybeNull<TraversableObject> {
+  if (!argsConfig) return null;
+
+  const inputTypeTrees = new Map<string, TraversableObject>();
+  let argsTree: MaybeNull<TraversableObject> = null;
+
+  for (const argName of Object.keys(argsConfig)) {
+    const argConfig = argsConfig[argName];
+
+    if (skipsScalarRules(argConfig)) continue;
+
+    const node = getScalarRulesNode(
+      argConfig.type,
+      kind,
+      scalarRules,
+      inputTypeTrees
+    );
+
+    if (node !== undefined) {
+      if (!argsTree) {
+        argsTree = {};
+      }
+      argsTree[argName] = node;
+    }
+  }
+
+  return argsTree;
+}
+
+function getScalarRulesNode(
+  type: GraphQLInputType,
+  kind: "validate" | "transform",
+  scalarRules: Record<string, ScalarRules>,
+  inputTypeTrees: Map<string, TraversableObject>
+): unknown {
+  if (isNonNullType(type)) {
+    return getScalarRulesNode(type.ofType, kind, scalarRules, inputTypeTrees);
+  }
+
+  if (isListType(type)) {
+    const elementNode = getScalarRulesNode(
+      type.ofType,
+      kind,
+      scalarRules,
+      inputTypeTrees
+    );
+    return elementNode === undefined ? undefined : createEachNode(elementNode);
+  }
+
+  if (!isInputObjectType(type)) {
+    // Scalar rules apply to nullable args as well, so they're skipped for null and omitted args
+    return kind === "validate"
+      ? mapRules(scalarRules[type.name]?.validate, nullableValidator)
+      : mapRules(scalarRules[type.name]?.transform, nullable);
+  }
+
+  const visitedTree = inputTypeTrees.get(type.name);
+  if (visitedTree) {
+    return visitedTree;
+  }
+
+  // Registered before traversing the fields, so that recursive references point to the same tree
+  const tree: TraversableObject = {};
+  inputTypeTrees.set(type.name, tree);
+
+  const fields = type.getFields();
+
+  for (const fieldName of Object.keys(fields)) {
+    const field = fields[fieldName];
+
+    if (skipsScalarRules(field)) continue;
+
+    const node = getScalarRulesNode(
+      field.type,
+      kind,
+      scalarRules,
+      inputTypeTrees
+    );
+
+    if (node !== undefined) {
+      tree[fieldName] = node;
+    }
+  }
+
+  return Object.keys(tree).length === 0 ? undefined : tree;
+}
+
+function mapRules<Rule>(
+  rules: Rule | Rule[] | undefined,
+  mapRule: (rule: Rule) => Rule
+): Rule | Rule[] | undefined {
+  if (rules === undefined) return undefined;
+
+  return Array.isArray(rules) ? rules.map(mapRule) : mapRule(rules);
+}
+
+function skipsScalarRules(inputValue: {
+  extensions?: Readonly<TraversableObject> | null;
+}): boolean {
+  return inputValue.extensions?.nexus?.config?.skipScalarRules === true;
+}
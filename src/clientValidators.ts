@@ -0,0 +1,523 @@
+import { writeFileSync } from "fs";
+import { GraphQLSchema } from "graphql";
+import { getType } from "jest-get-type";
+
+import {
+  ScalarRules,
+  ValidationResultError,
+  Validator,
+  ValidatorRule,
+} from ".";
+import { getStaticValidatorTree } from "./metadata";
+import { TraversableObject } from "./types";
+import {
+  getEachNodeContent,
+  getSelfValue,
+  isConditionalNode,
+  isEachNode,
+} from "./utils";
+import { getValidatorMetadata, getValidatorRule } from "./validators";
+
+export interface ClientValidatorsOptions {
+  /**
+   * Default of the `abortEarly` param of the generated functions. Defaults to false
+   */
+  abortEarly?: boolean;
+
+  /**
+   * Same as `scalarRules` of the plugin config. Passed by the plugin
+   */
+  scalarRules?: Record<string, ScalarRules>;
+}
+
+interface ClientCheck {
+  rule: string;
+  params: ValidatorRule["params"];
+  error: ValidationResultError;
+}
+
+/**
+ * Serializable version of a validator tree that only includes built-in validators.
+ * Recursive input types reference the rules of their first occurrence by its path (list elements are denoted by `*`)
+ */
+type ClientRuleNode =
+  | { checks: ClientCheck[] }
+  | { fields: Record<string, ClientRuleNode> }
+  | { listChecks?: ClientCheck[]; each?: ClientRuleNode }
+  | { ref: string[] };
+
+// Validators equivalent to a pattern are registered along with the source and flags of their regexp
+const PATTERN_RULE =
+  "(arg, { source, flags }) => !new RegExp(source, flags).test(arg)";
+
+/**
+ * Client implementations of the built-in validators, keyed by rule name (See `getValidatorRule`).
+ * Each one returns true when validation fails, exactly like the error condition of the server validator
+ */
+const CLIENT_RULES: Record<string, string> = {
+  // Numbers
+  max: "(arg, { n }) => arg > n",
+  min: "(arg, { n }) => arg < n",
+  range: `(arg, { lowerBound, upperBound, lowerExclusive, upperExclusive }) =>
+    (lowerExclusive ? arg <= lowerBound : arg < lowerBound) ||
+    (upperExclusive ? arg >= upperBound : arg > upperBound)`,
+  integer: "(arg) => !Number.isInteger(arg)",
+  positive: "(arg) => !(arg > 0)",
+  nonNegative: "(arg) => !(arg >= 0)",
+  multipleOf:
+    "(arg, { n }) => !(Math.abs(arg / n - Math.round(arg / n)) < 1e-9)",
+  precision: `(arg, { maxDecimals }) => {
+    if (!Number.isFinite(arg)) return false;
+    const [mantissa, exponent = "0"] = String(arg).toLowerCase().split("e");
+    return Math.max(0, (mantissa.split(".")[1] || "").length - Number(exponent)) > maxDecimals;
+  }`,
+  finite: "(arg) => !Number.isFinite(arg)",
+
+  // Arrays & Strings
+  maxSize: "(arg, { n }) => arg.length > n",
+  minSize: "(arg, { n }) => arg.length < n",
+  rangeSize:
+    "(arg, { lowerBound, upperBound }) => arg.length < lowerBound || arg.length > upperBound",
+  nonEmpty: "(arg) => arg.length === 0",
+  unique: "(arg) => new Set(arg).size !== arg.length",
+  includesAll:
+    "(arg, { values }) => !values.every((value) => arg.includes(value))",
+  includesNone:
+    "(arg, { values }) => values.some((value) => arg.includes(value))",
+  subsetOf:
+    "(arg, { allowed }) => !arg.every((element) => allowed.includes(element))",
+  sorted: `(arg, { direction }) => arg.some((element, i) =>
+    i !== 0 && (direction === "asc" ? arg[i - 1] > element : arg[i - 1] < element)
+  )`,
+
+  // Strings
+  pattern: PATTERN_RULE,
+  email: PATTERN_RULE,
+  uuid: PATTERN_RULE,
+  slug: PATTERN_RULE,
+  alphanumeric: PATTERN_RULE,
+  hexColor: PATTERN_RULE,
+  ipAddress: PATTERN_RULE,
+  phoneE164: PATTERN_RULE,
+  url: `(arg, { protocols }) => {
+    try {
+      return !protocols.includes(new URL(arg).protocol.slice(0, -1));
+    } catch {
+      return true;
+    }
+  }`,
+  startsWith: "(arg, { prefix }) => !arg.startsWith(prefix)",
+  endsWith: "(arg, { suffix }) => !arg.endsWith(suffix)",
+  contains: "(arg, { substring }) => !arg.includes(substring)",
+  oneOf: "(arg, { values }) => !values.includes(arg)",
+};
+
+// Mirrors `findErrors` so that the generated functions produce identical errors trees
+const CLIENT_RUNTIME = `
+export type ValidationResultError =
+  | [string, Record<string, number | string | boolean> | null]
+  | ValidationResultError[];
+
+export type ErrorsTree = {
+  [key: string]: ValidationResultError | ErrorsTree;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Params = any;
+
+interface Check {
+  rule: string;
+  params: Params;
+  error: ValidationResultError;
+}
+
+type RuleNode =
+  | { checks: Check[] }
+  | { fields: Record<string, RuleNode> }
+  | { listChecks?: Check[]; each?: RuleNode }
+  | { ref: string[] };
+
+interface FoundError {
+  path: string[];
+  error: ValidationResultError;
+}
+
+const RULES: Record<string, (arg: Params, params: Params) => boolean> = {
+__RULES__
+};
+
+function runChecks(
+  checks: Check[],
+  value: unknown
+): ValidationResultError | undefined {
+  // Built-in validators pass for null and undefined
+  if (value === null || value === undefined) return undefined;
+
+  for (const check of checks) {
+    if (RULES[check.rule](value, check.params)) return check.error;
+  }
+
+  return undefined;
+}
+
+function resolveRef(root: RuleNode, ref: string[]): RuleNode | undefined {
+  let node: RuleNode | undefined = root;
+
+  for (const key of ref) {
+    if (!node) return undefined;
+
+    if (key === "*") {
+      node = "each" in node ? node.each : undefined;
+    } else {
+      node = "fields" in node ? node.fields[key] : undefined;
+    }
+  }
+
+  return node;
+}
+
+function collectErrors(
+  root: RuleNode,
+  node: RuleNode,
+  value: unknown,
+  path: string[],
+  fieldErrors: FoundError[],
+  listErrors: FoundError[]
+): void {
+  if ("ref" in node) {
+    const refNode = resolveRef(root, node.ref);
+    if (refNode) {
+      collectErrors(root, refNode, value, path, fieldErrors, listErrors);
+    }
+    return;
+  }
+
+  if ("checks" in node) {
+    const error = runChecks(node.checks, value);
+    if (error) fieldErrors.push({ path, error });
+    return;
+  }
+
+  // Missing objects and lists are not traversed
+  if (!value) return;
+
+  if ("fields" in node) {
+    for (const key of Object.keys(node.fields)) {
+      collectErrors(
+        root,
+        node.fields[key],
+        (value as Record<string, unknown>)[key],
+        [...path, key],
+        fieldErrors,
+        listErrors
+      );
+    }
+    return;
+  }
+
+  if (node.listChecks) {
+    const error = runChecks(node.listChecks, value);
+    if (error) listErrors.push({ path, error });
+  }
+
+  if (node.each && Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      collectErrors(
+        root,
+        node.each,
+        value[i],
+        [...path, String(i)],
+        fieldErrors,
+        listErrors
+      );
+    }
+  }
+}
+
+function isErrorsTree(value: unknown): value is ErrorsTree {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeErrors(existingErrors: unknown, errors: unknown): unknown {
+  if (existingErrors === undefined || existingErrors === null) {
+    return errors;
+  }
+
+  if (isErrorsTree(existingErrors) && isErrorsTree(errors)) {
+    const mergedErrors: ErrorsTree = { ...existingErrors };
+
+    for (const key of Object.keys(errors)) {
+      mergedErrors[key] = mergeErrors(mergedErrors[key], errors[key]) as
+        | ValidationResultError
+        | ErrorsTree;
+    }
+
+    return mergedErrors;
+  }
+
+  if (isErrorsTree(existingErrors) || isErrorsTree(errors)) {
+    // The error of the list takes precedence over the errors of its elements
+    return errors;
+  }
+
+  return [existingErrors, errors];
+}
+
+function placeError(
+  errorsTree: ErrorsTree,
+  { path, error }: FoundError
+): ErrorsTree {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let parent: any = errorsTree;
+
+  for (const key of path.slice(0, -1)) {
+    if (!parent[key]) parent[key] = {};
+    parent = parent[key];
+  }
+
+  const lastKey = path[path.length - 1];
+  parent[lastKey] = mergeErrors(parent[lastKey], error);
+
+  return errorsTree;
+}
+
+function validateArgs(
+  rules: Record<string, RuleNode>,
+  args: Record<string, unknown>,
+  abortEarly: boolean
+): ErrorsTree | null {
+  const fieldErrors: FoundError[] = [];
+  const listErrors: FoundError[] = [];
+
+  const root = { fields: rules };
+  collectErrors(root, root, args, [], fieldErrors, listErrors);
+
+  if (abortEarly) {
+    const firstError = fieldErrors[0] || listErrors[0];
+    return firstError ? placeError({}, firstError) : null;
+  }
+
+  if (fieldErrors.length === 0 && listErrors.length === 0) return null;
+
+  // Errors of the lists themselves are merged after the errors of their elements
+  return [...fieldErrors, ...listErrors].reduce(placeError, {});
+}
+`;
+
+/**
+ * Field args paths (list elements are denoted by `*`) whose validators can't run on the client
+ * i.e. custom (including async) validators, object validators and conditional validators. An empty path means the args object
+ * (e.g. when validators are returned from a `validate` resolver)
+ */
+export type ServerOnlyRules = Record<string, string[]>;
+
+/**
+ * @returns source of a standalone TypeScript module that exports a validation function per mutation
+ * (e.g. `validateCreateUser(args)` for `Mutation.createUser`) which runs the built-in validators of the mutation args
+ * and returns the same errors tree the server would (null if there are no errors).
+ * Rules that can only run on the server are listed in the exported `SERVER_ONLY_RULES`.
+ *
+ * Note: Transformers are not applied on the client, pass the args as the server would receive them after transformation
+ */
+export function generateClientValidators(
+  schema: GraphQLSchema,
+  { abortEarly = false, scalarRules }: ClientValidatorsOptions = {}
+): string {
+  const mutationType = schema.getMutationType();
+  const fields = mutationType ? mutationType.getFields() : {};
+
+  const functions: string[] = [];
+  const serverOnlyRules: ServerOnlyRules = {};
+
+  for (const fieldName of Object.keys(fields)) {
+    const field = fields[fieldName];
+    const serverOnlyPaths = new Set<string>();
+
+    const validate = (field.extensions as TraversableObject | undefined)?.nexus
+      ?.config?.validate;
+    if (typeof validate === "function") {
+      serverOnlyPaths.add("");
+    }
+
+    const validatorTree = getStaticValidatorTree(field, scalarRules);
+    const rules = validatorTree
+      ? toClientRuleNode(validatorTree, [], serverOnlyPaths, new Map())
+      : undefined;
+
+    functions.push(
+      [
+        `export function validate${capitalize(fieldName)}(`,
+        `  args: Record<string, unknown>,`,
+        `  abortEarly = ${abortEarly}`,
+        `): ErrorsTree | null {`,
+        `  return validateArgs(${JSON.stringify(
+          rules && "fields" in rules ? rules.fields : {}
+        )}, args, abortEarly);`,
+        `}`,
+      ].join("\n")
+    );
+
+    if (serverOnlyPaths.size !== 0) {
+      serverOnlyRules[fieldName] = [...serverOnlyPaths];
+    }
+  }
+
+  const rules = Object.keys(CLIENT_RULES)
+    .map((name) => `  ${name}: ${CLIENT_RULES[name]},`)
+    .join("\n");
+
+  return [
+    "/* eslint-disable */",
+    "// This file is generated from the validators of the schema. Do not edit it manually",
+    CLIENT_RUNTIME.replace("__RULES__", rules),
+    "/**",
+    " * Paths of the args validated only on the server, keyed by mutation",
+    " */",
+    `export const SERVER_ONLY_RULES: Record<string, string[]> = ${JSON.stringify(
+      serverOnlyRules,
+      null,
+      2
+    )};`,
+    "",
+    functions.join("\n\n"),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Writes the module generated by {@link generateClientValidators} to {@link outputPath}
+ */
+export function writeClientValidators(
+  outputPath: string,
+  schema: GraphQLSchema,
+  options?: ClientValidatorsOptions
+) {
+  writeFileSync(outputPath, generateClientValidators(schema, options));
+}
+
+/**
+ * @param ancestors Paths of the nodes being converted. Trees of recursive input types are cyclic,
+ * so reaching one of them again means the input type repeats
+ */
+function toClientRuleNode(
+  node: unknown,
+  path: string[],
+  serverOnlyPaths: Set<string>,
+  ancestors: Map<unknown, string[]>
+): ClientRuleNode | undefined {
+  if (isConditionalNode(node)) {
+    // Predicates receive the args on the server
+    serverOnlyPaths.add(path.join("."));
+    return undefined;
+  }
+
+  const ancestorPath = ancestors.get(node);
+  if (ancestorPath) {
+    return { ref: ancestorPath };
+  }
+
+  ancestors.set(node, path);
+  const ruleNode = toClientNestedRuleNode(
+    node,
+    path,
+    serverOnlyPaths,
+    ancestors
+  );
+  ancestors.delete(node);
+
+  return ruleNode;
+}
+
+function toClientNestedRuleNode(
+  node: unknown,
+  path: string[],
+  serverOnlyPaths: Set<string>,
+  ancestors: Map<unknown, string[]>
+): ClientRuleNode | undefined {
+  if (isEachNode(node)) {
+    const listChecks = toClientChecks(
+      getSelfValue(node),
+      path,
+      serverOnlyPaths
+    );
+    const each = toClientRuleNode(
+      getEachNodeContent(node),
+      [...path, "*"],
+      serverOnlyPaths,
+      ancestors
+    );
+
+    if (listChecks.length === 0 && !each) return undefined;
+
+    return {
+      ...(listChecks.length !== 0 && { listChecks }),
+      ...(each && { each }),
+    };
+  }
+
+  if (getType(node) === "object") {
+    if (getSelfValue(node as TraversableObject) !== undefined) {
+      // Object validators
+      serverOnlyPaths.add(path.join("."));
+    }
+
+    const fields: Record<string, ClientRuleNode> = {};
+
+    for (const key of Object.keys(node as TraversableObject)) {
+      const fieldNode = toClientRuleNode(
+        (node as TraversableObject)[key],
+        [...path, key],
+        serverOnlyPaths,
+        ancestors
+      );
+
+      if (fieldNode) {
+        fields[key] = fieldNode;
+      }
+    }
+
+    return Object.keys(fields).length === 0 ? undefined : { fields };
+  }
+
+  const checks = toClientChecks(node, path, serverOnlyPaths);
+
+  return checks.length === 0 ? undefined : { checks };
+}
+
+function toClientChecks(
+  validators: unknown,
+  path: string[],
+  serverOnlyPaths: Set<string>
+): ClientCheck[] {
+  const checks: ClientCheck[] = [];
+
+  if (validators === undefined || validators === null) return checks;
+
+  for (const validator of Array.isArray(validators)
+    ? validators
+    : [validators]) {
+    const rule =
+      typeof validator === "function"
+        ? getValidatorRule(validator as Validator<never>)
+        : undefined;
+    const metadata = rule
+      ? getValidatorMetadata(validator as Validator<never>)
+      : undefined;
+
+    if (rule && metadata && CLIENT_RULES[rule.name]) {
+      checks.push({
+        rule: rule.name,
+        params: rule.params,
+        error: [metadata.code, metadata.extras],
+      });
+    } else {
+      serverOnlyPaths.add(path.join("."));
+    }
+  }
+
+  return checks;
+}
+
+function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
@@ -0,0 +1,272 @@
+import {
+  DefinitionNode,
+  GraphQLSchema,
+  InputValueDefinitionNode,
+  isInputObjectType,
+  isInterfaceType,
+  isObjectType,
+  Kind,
+  parse,
+  print,
+  printSchema,
+  valueFromASTUntyped,
+} from "graphql";
+import type { Maybe } from "graphql/jsutils/Maybe";
+
+import { Validator } from ".";
+import { TraversableObject } from "./types";
+import {
+  max,
+  maxSize,
+  min,
+  minSize,
+  pattern,
+  range,
+  rangeSize,
+} from "./validators";
+
+/**
+ * Constraints declared on an argument or input field.
+ * Each constraint corresponds to a directive in the printed schema, See {@link CONSTRAINT_DIRECTIVES_SDL}
+ */
+export interface Constraints {
+  /**
+   * `@length(min: Int, max: Int)` Compiled to {@link rangeSize}, {@link minSize} or {@link maxSize}
+   */
+  length?: { min?: number; max?: number };
+
+  /**
+   * `@range(min: Float, max: Float)` Compiled to {@link range}, {@link min} or {@link max}
+   */
+  range?: { min?: number; max?: number };
+
+  /**
+   * `@pattern(regex: String!)` Compiled to {@link pattern}
+   */
+  pattern?: { regex: string };
+}
+
+/**
+ * Definitions of the constraint directives. Add them to your type definitions if your schema is built from SDL
+ */
+export const CONSTRAINT_DIRECTIVES_SDL = `
+directive @length(min: Int, max: Int) on ARGUMENT_DEFINITION | INPUT_FIELD_DEFINITION
+
+directive @range(min: Float, max: Float) on ARGUMENT_DEFINITION | INPUT_FIELD_DEFINITION
+
+directive @pattern(regex: String!) on ARGUMENT_DEFINITION | INPUT_FIELD_DEFINITION
+`;
+
+const CONSTRAINT_NAMES: readonly (keyof Constraints)[] = [
+  "length",
+  "range",
+  "pattern",
+];
+
+// Derived from the AST types to support both graphql 15 and 16
+type InputValueDirectiveNode = NonNullable<
+  InputValueDefinitionNode["directives"]
+>[number];
+
+type InputValueDirectiveArgumentNode = NonNullable<
+  InputValueDirectiveNode["arguments"]
+>[number];
+
+/**
+ * Argument or input field (either config or built one)
+ */
+interface InputValue {
+  extensions?: Maybe<Readonly<TraversableObject>>;
+  astNode?: Maybe<InputValueDefinitionNode>;
+}
+
+/**
+ * @returns constraints declared on {@link inputValue} through the `constraints` config
+ * or through directives (if the schema is built from SDL)
+ */
+export function getConstraints(inputValue: InputValue): Constraints {
+  const constraints: Constraints = {};
+
+  for (const directive of inputValue.astNode?.directives || []) {
+    const name = directive.name.value as keyof Constraints;
+
+    if (CONSTRAINT_NAMES.includes(name)) {
+      const directiveArgs: TraversableObject = {};
+
+      for (const arg of directive.arguments || []) {
+        directiveArgs[arg.name.value] = valueFromASTUntyped(arg.value);
+      }
+
+      constraints[name] = directiveArgs as Constraints[typeof name] &
+        Constraints["pattern"];
+    }
+  }
+
+  return {
+    ...constraints,
+    ...inputValue.extensions?.nexus?.config?.constraints,
+  };
+}
+
+/**
+ * @returns validators equivalent to {@link constraints}
+ */
+export function constraintsToValidators(
+  constraints: Constraints
+): Validator<unknown>[] {
+  const validators: Validator<never>[] = [];
+
+  if (constraints.length) {
+    const { min: lowerBound, max: upperBound } = constraints.length;
+
+    if (isBound(lowerBound) && isBound(upperBound)) {
+      validators.push(rangeSize(lowerBound, upperBound));
+    } else if (isBound(lowerBound)) {
+      validators.push(minSize(lowerBound));
+    } else if (isBound(upperBound)) {
+      validators.push(maxSize(upperBound));
+    }
+  }
+
+  if (constraints.range) {
+    const { min: lowerBound, max: upperBound } = constraints.range;
+
+    if (isBound(lowerBound) && isBound(upperBound)) {
+      validators.push(range(lowerBound, upperBound));
+    } else if (isBound(lowerBound)) {
+      validators.push(min(lowerBound));
+    } else if (isBound(upperBound)) {
+      validators.push(max(upperBound));
+    }
+  }
+
+  if (constraints.pattern) {
+    validators.push(pattern(new RegExp(constraints.pattern.regex)));
+  }
+
+  return validators as Validator<unknown>[];
+}
+
+function isBound(bound: number | null | undefined): bound is number {
+  return bound !== null && bound !== undefined;
+}
+
+/**
+ * Same as `printSchema` of graphql, but constraints of arguments and input fields are printed as directives
+ * along with the directive definitions. Pass it to `customPrintSchemaFn` of nexus `makeSchema` config
+ */
+export function printSchemaWithConstraints(schema: GraphQLSchema): string {
+  const document = parse(printSchema(schema));
+
+  const definitions = document.definitions.map((definition) => {
+    if (
+      definition.kind === Kind.OBJECT_TYPE_DEFINITION ||
+      definition.kind === Kind.INTERFACE_TYPE_DEFINITION
+    ) {
+      const type = schema.getType(definition.name.value);
+
+      if (!isObjectType(type) && !isInterfaceType(type)) return definition;
+
+      const fields = type.getFields();
+
+      return {
+        ...definition,
+        fields: definition.fields?.map((fieldNode) => ({
+          ...fieldNode,
+          arguments: fieldNode.arguments?.map((argNode) =>
+            withConstraintDirectives(
+              argNode,
+              fields[fieldNode.name.value].args.find(
+                (arg) => arg.name === argNode.name.value
+              )
+            )
+          ),
+        })),
+      };
+    }
+
+    if (definition.kind === Kind.INPUT_OBJECT_TYPE_DEFINITION) {
+      const type = schema.getType(definition.name.value);
+
+      if (!isInputObjectType(type)) return definition;
+
+      const fields = type.getFields();
+
+      return {
+        ...definition,
+        fields: definition.fields?.map((fieldNode) =>
+          withConstraintDirectives(fieldNode, fields[fieldNode.name.value])
+        ),
+      };
+    }
+
+    return definition;
+  });
+
+  // Directive definitions are already printed if the schema is built from SDL that includes them
+  const directiveDefinitions = parse(
+    CONSTRAINT_DIRECTIVES_SDL
+  ).definitions.filter(
+    (definition) =>
+      definition.kind === Kind.DIRECTIVE_DEFINITION &&
+      !schema.getDirective(definition.name.value)
+  );
+
+  return print({
+    ...document,
+    definitions: [...directiveDefinitions, ...definitions] as DefinitionNode[],
+  });
+}
+
+function withConstraintDirectives(
+  node: InputValueDefinitionNode,
+  inputValue: InputValue | undefined
+): InputValueDefinitionNode {
+  if (!inputValue) return node;
+
+  const constraints = getConstraints(inputValue);
+
+  const directives: InputValueDirectiveNode[] = (node.directives || []).filter(
+    (directive) =>
+      !CONSTRAINT_NAMES.includes(directive.name.value as keyof Constraints)
+  );
+
+  for (const name of CONSTRAINT_NAMES) {
+    const directiveArgs = constraints[name] as TraversableObject | undefined;
+
+    if (directiveArgs) {
+      directives.push(createDirectiveNode(name, directiveArgs));
+    }
+  }
+
+  return { ...node, directives };
+}
+
+function createDirectiveNode(
+  name: string,
+  directiveArgs: TraversableObject
+): InputValueDirectiveNode {
+  const args = Object.keys(directiveArgs)
+    .filter((argName) => isBound(directiveArgs[argName]))
+    .map(
+      (argName): InputValueDirectiveArgumentNode => ({
+        kind: Kind.ARGUMENT,
+        name: { kind: Kind.NAME, value: argName },
+        value:
+          typeof directiveArgs[argName] === "number"
+            ? {
+                kind: Number.isInteger(directiveArgs[argName])
+                  ? Kind.INT
+                  : Kind.FLOAT,
+                value: String(directiveArgs[argName]),
+              }
+            : { kind: Kind.STRING, value: String(directiveArgs[argName]) },
+      })
+    );
+
+  return {
+    kind: Kind.DIRECTIVE,
+    name: { kind: Kind.NAME, value: name },
+    arguments: args,
+  };
+}
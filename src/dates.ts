@@ -0,0 +1,121 @@
+/**
+ * All components are added up, use negative values for durations in the past
+ */
+export interface Duration {
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  milliseconds?: number;
+}
+
+/**
+ * Date relative to the time of validation. Created by {@link fromNow}
+ */
+export interface RelativeDate {
+  fromNow: Duration;
+}
+
+/**
+ * Either a fixed date (`Date` or ISO string) or a date relative to now
+ */
+export type DateBound = Date | string | RelativeDate;
+
+export type DateUnit = "second" | "minute" | "hour" | "day" | "month" | "year";
+
+/**
+ * @returns date bound that is {@link duration} away from the time of validation
+ *
+ * @example
+ * ```
+ * after(fromNow({ days: 1 })) // At least a day from now
+ * before(fromNow()) // In the past
+ * ```
+ */
+export function fromNow(duration: Duration = {}): RelativeDate {
+  return { fromNow: duration };
+}
+
+export function durationToMilliseconds({
+  weeks = 0,
+  days = 0,
+  hours = 0,
+  minutes = 0,
+  seconds = 0,
+  milliseconds = 0,
+}: Duration): number {
+  return (
+    ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000 +
+    milliseconds
+  );
+}
+
+const DATE_TIME_WITHOUT_OFFSET_REGEXP =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?$/;
+
+/**
+ * @returns {@link value} as a Date. Invalid date strings result in an invalid date (NaN time).
+ * ISO date-times without an offset are in UTC (like ISO dates), rather than in the time zone of the server
+ */
+export function toDate(value: Date | string): Date {
+  if (value instanceof Date) return value;
+
+  return new Date(
+    DATE_TIME_WITHOUT_OFFSET_REGEXP.test(value) ? `${value}Z` : value
+  );
+}
+
+export function isValidDate(date: Date): boolean {
+  return !Number.isNaN(date.getTime());
+}
+
+export function resolveDateBound(bound: DateBound): Date {
+  if (typeof bound === "object" && !(bound instanceof Date)) {
+    return new Date(Date.now() + durationToMilliseconds(bound.fromNow));
+  }
+
+  return toDate(bound);
+}
+
+/**
+ * @returns {@link bound} as a string for error extras. Either an ISO string or `now` followed by the offset in ms
+ * e.g. `now`, `now+86400000`
+ */
+export function describeDateBound(bound: DateBound): string {
+  if (typeof bound === "object" && !(bound instanceof Date)) {
+    const offset = durationToMilliseconds(bound.fromNow);
+    return offset === 0 ? "now" : `now${offset > 0 ? "+" : ""}${offset}`;
+  }
+
+  const date = toDate(bound);
+  return isValidDate(date) ? date.toISOString() : String(bound);
+}
+
+/**
+ * @returns a new date where components smaller than {@link unit} are reset (in UTC)
+ */
+export function truncateDateTo(date: Date, unit: DateUnit): Date {
+  const components = [
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+  ];
+
+  const keptComponents = {
+    year: 1,
+    month: 2,
+    day: 3,
+    hour: 4,
+    minute: 5,
+    second: 6,
+  }[unit];
+
+  const [year, month = 0, day = 1, hours = 0, minutes = 0, seconds = 0] =
+    components.slice(0, keptComponents);
+
+  return new Date(Date.UTC(year, month, day, hours, minutes, seconds));
+}
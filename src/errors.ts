@@ -0,0 +1,277 @@
+import {
+  getNamedType,
+  GraphQLError,
+  GraphQLOutputType,
+  GraphQLSchema,
+  isAbstractType,
+} from "graphql";
+import { objectType, scalarType } from "nexus";
+import { getType } from "jest-get-type";
+import { join } from "path";
+
+import {
+  BaseValidationResultError,
+  ErrorsTree,
+  ValidationResultError,
+  ValidationResultErrorExtras,
+} from ".";
+
+/**
+ * `extensions.code` of {@link ArgsValidationError}
+ */
+export const ARGS_VALIDATION_ERROR_CODE = "VALIDATION_FAILED";
+
+export interface FlatValidationError {
+  /**
+   * Path to the failing argument. List indices are numbers
+   * e.g. `["userCreateInput", "profiles", 2, "bio"]`
+   */
+  path: (string | number)[];
+  code: string;
+  extras: ValidationResultErrorExtras;
+
+  /**
+   * Attached when the plugin `messages` config is provided
+   */
+  message?: string;
+}
+
+export interface ArgsValidationErrorOptions {
+  /**
+   * Defaults to "One or more arguments failed validation"
+   */
+  message?: string;
+
+  /**
+   * If true, `extensions.validationErrors` is a list of {@link FlatValidationError}
+   * instead of the nested errors tree. Defaults to false
+   */
+  flatten?: boolean;
+}
+
+/**
+ * GraphQL error carrying the validation errors in `extensions.validationErrors`
+ * with a stable `extensions.code` ({@link ARGS_VALIDATION_ERROR_CODE})
+ */
+export class ArgsValidationError extends GraphQLError {
+  readonly errorsTree: ErrorsTree;
+
+  constructor(
+    errorsTree: ErrorsTree,
+    {
+      message = "One or more arguments failed validation",
+      flatten = false,
+    }: ArgsValidationErrorOptions = {}
+  ) {
+    // Positional arguments are used to support both graphql 15 and 16
+    super(message, undefined, undefined, undefined, undefined, undefined, {
+      code: ARGS_VALIDATION_ERROR_CODE,
+      validationErrors: flatten ? flattenErrorsTree(errorsTree) : errorsTree,
+    });
+
+    this.errorsTree = errorsTree;
+  }
+}
+
+/**
+ * `extensions.code` of {@link ResultValidationError}
+ */
+export const RESULT_VALIDATION_ERROR_CODE = "RESULT_VALIDATION_FAILED";
+
+/**
+ * GraphQL error thrown when the result of a resolver fails `validateResult` and `onResultValidationError` is not provided.
+ * The validation errors are in `extensions.validationErrors`
+ */
+export class ResultValidationError extends GraphQLError {
+  readonly errors: ValidationResultError | ErrorsTree;
+
+  constructor(
+    errors: ValidationResultError | ErrorsTree,
+    message = "The result of the resolver failed validation"
+  ) {
+    // Positional arguments are used to support both graphql 15 and 16
+    super(message, undefined, undefined, undefined, undefined, undefined, {
+      code: RESULT_VALIDATION_ERROR_CODE,
+      validationErrors: errors,
+    });
+
+    this.errors = errors;
+  }
+}
+
+/**
+ * `extensions.code` of {@link TransformTimeoutError}
+ */
+export const TRANSFORM_TIMEOUT_ERROR_CODE = "TRANSFORM_TIMEOUT";
+
+/**
+ * GraphQL error thrown when an async transformer doesn't finish within the `timeout` of the plugin config
+ */
+export class TransformTimeoutError extends GraphQLError {
+  readonly timeout: number;
+
+  constructor(
+    timeout: number,
+    message = `Transformation of the arguments timed out after ${timeout}ms`
+  ) {
+    // Positional arguments are used to support both graphql 15 and 16
+    super(message, undefined, undefined, undefined, undefined, undefined, {
+      code: TRANSFORM_TIMEOUT_ERROR_CODE,
+      timeout,
+    });
+
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * @returns list of the validation errors in {@link errorsTree} along with the path to each of them
+ */
+export function flattenErrorsTree(
+  errorsTree: ErrorsTree
+): FlatValidationError[] {
+  const flatErrors: FlatValidationError[] = [];
+  flattenErrorsTreeHelper([], errorsTree, flatErrors);
+  return flatErrors;
+}
+
+function flattenErrorsTreeHelper(
+  path: (string | number)[],
+  errors: ValidationResultError | ErrorsTree,
+  flatErrors: FlatValidationError[]
+) {
+  if (getType(errors) === "object") {
+    for (const key of Object.keys(errors)) {
+      // GraphQL names can't start with a digit, so these keys are always list indices
+      const pathPart = /^\d+$/.test(key) ? Number(key) : key;
+
+      flattenErrorsTreeHelper(
+        [...path, pathPart],
+        (errors as ErrorsTree)[key],
+        flatErrors
+      );
+    }
+  } else if (isBaseValidationResultError(errors)) {
+    const [code, extras, message] = errors;
+    flatErrors.push({
+      path,
+      code,
+      extras,
+      ...(message !== undefined && { message }),
+    });
+  } else {
+    for (const error of errors as ValidationResultError[]) {
+      flattenErrorsTreeHelper(path, error, flatErrors);
+    }
+  }
+}
+
+function isBaseValidationResultError(
+  error: ValidationResultError | ErrorsTree
+): error is BaseValidationResultError {
+  return Array.isArray(error) && typeof error[0] === "string";
+}
+
+//===================================
+// Errors as data
+//===================================
+
+/**
+ * Name of the object type created by {@link argsValidationFailedTypes}
+ */
+export const ARGS_VALIDATION_FAILED_TYPE_NAME = "ArgsValidationFailed";
+
+export interface ArgsValidationFailed {
+  __typename: typeof ARGS_VALIDATION_FAILED_TYPE_NAME;
+  message: string;
+  errors: FlatValidationError[];
+}
+
+/**
+ * @returns the nexus types of `ArgsValidationFailed` object type to add to the schema types.
+ * Add `ArgsValidationFailed` to the result union of a field, and the plugin resolves the field to it when args fail validation
+ * (instead of calling `onValidationError`)
+ *
+ * @example
+ * ```
+ * export const CreateUserPayload = unionType({
+ *   name: "CreateUserPayload",
+ *   definition(t) {
+ *     t.members("User", "ArgsValidationFailed");
+ *   },
+ * });
+ * ```
+ */
+export function argsValidationFailedTypes() {
+  return [
+    scalarType({
+      name: "ValidationErrorExtras",
+      description:
+        "Extras related to a validation error. An object whose values are numbers, strings or booleans",
+      sourceType: {
+        module: join(__dirname, "."),
+        export: "ValidationResultErrorExtras",
+      },
+      serialize: (value) => value,
+    }),
+
+    objectType({
+      name: "ArgValidationError",
+      description: "An argument that failed validation",
+      definition(t) {
+        t.nonNull.list.nonNull.string("path", {
+          description: "Path to the argument. List indices are included",
+        });
+        t.nonNull.string("code");
+        t.field("extras", { type: "ValidationErrorExtras" });
+        t.string("message", {
+          description:
+            "Human-readable message. Only set when the plugin `messages` config is provided",
+        });
+      },
+    }),
+
+    objectType({
+      name: ARGS_VALIDATION_FAILED_TYPE_NAME,
+      description: "One or more arguments failed validation",
+      definition(t) {
+        t.nonNull.string("message");
+        t.nonNull.list.nonNull.field("errors", {
+          type: "ArgValidationError",
+        });
+      },
+    }),
+  ];
+}
+
+/**
+ * @returns the value the field resolves to (Of `ArgsValidationFailed` object type)
+ */
+export function createArgsValidationFailed(
+  errorsTree: ErrorsTree,
+  message = "One or more arguments failed validation"
+): ArgsValidationFailed {
+  return {
+    __typename: ARGS_VALIDATION_FAILED_TYPE_NAME,
+    message,
+    errors: flattenErrorsTree(errorsTree),
+  };
+}
+
+/**
+ * @returns true if {@link returnType} is `ArgsValidationFailed` or an abstract type that has it as a possible type
+ */
+export function canResolveToArgsValidationFailed(
+  schema: GraphQLSchema,
+  returnType: GraphQLOutputType
+): boolean {
+  const namedType = getNamedType(returnType);
+
+  if (isAbstractType(namedType)) {
+    return schema
+      .getPossibleTypes(namedType)
+      .some((type) => type.name === ARGS_VALIDATION_FAILED_TYPE_NAME);
+  }
+
+  return namedType.name === ARGS_VALIDATION_FAILED_TYPE_NAME;
+}
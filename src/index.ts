@@ -2,17 +2,122 @@ import { plugin } from "nexus";
 import {
   ArgsValue,
   completeValue,
+  GetGen,
+  isPromiseLike,
   MaybePromise,
   printedGenTyping,
   printedGenTypingImport,
+  ResultValue,
 } from "nexus/dist/core";
+import { GraphQLResolveInfo } from "graphql";
 import { join } from "path";
 import { getType } from "jest-get-type";
 
-import { mapObject } from "./utils";
-import { MaybeNull, Resolver, TraversableObject } from "./types";
+import {
+  clonePlainObject,
+  combineNodes,
+  ConditionalNode,
+  createConditionalNode,
+  createEachNode,
+  createExtendNode,
+  EachNode,
+  ExtendNode,
+  getSelfValue,
+  isEachNode,
+  mapObject,
+  mergeNodes,
+  raceTimeout,
+  resolveConditionalNode,
+  SelfNode,
+  withSelfValue,
+} from "./utils";
+import {
+  InputFieldValue,
+  InputTypeValue,
+  MaybeNull,
+  Resolver,
+  TraversableObject,
+} from "./types";
 import { combineTransformers } from "./transformers";
-import { andValidators } from "./validators";
+import { andValidators, isPresenceValidator } from "./validators";
+import {
+  ArgsValidationError,
+  canResolveToArgsValidationFailed,
+  createArgsValidationFailed,
+  ResultValidationError,
+  TransformTimeoutError,
+} from "./errors";
+import { getArgsTypeTree, getScalarRulesTree } from "./argsTypeTree";
+import {
+  addValidationMetadataExtensions,
+  getValidationMetadata,
+  writeValidationMetadata,
+} from "./metadata";
+import { writeClientValidators } from "./clientValidators";
+import { localizeErrorsTree, MessagesConfig } from "./messages";
+import { hasOneOfInputs, narrowOneOfInputs } from "./oneOf";
+
+export {
+  ARGS_VALIDATION_ERROR_CODE,
+  ARGS_VALIDATION_FAILED_TYPE_NAME,
+  ArgsValidationError,
+  ArgsValidationErrorOptions,
+  ArgsValidationFailed,
+  argsValidationFailedTypes,
+  createArgsValidationFailed,
+  FlatValidationError,
+  flattenErrorsTree,
+  RESULT_VALIDATION_ERROR_CODE,
+  ResultValidationError,
+  TRANSFORM_TIMEOUT_ERROR_CODE,
+  TransformTimeoutError,
+} from "./errors";
+export {
+  CONSTRAINT_DIRECTIVES_SDL,
+  Constraints,
+  printSchemaWithConstraints,
+} from "./constraints";
+export {
+  ArgsValidationMetadata,
+  getFieldValidationMetadata,
+  getValidationMetadata,
+  VALIDATION_METADATA_EXTENSION,
+  ValidationMetadataManifest,
+  ValidationMetadataRef,
+} from "./metadata";
+export {
+  ClientValidatorsOptions,
+  generateClientValidators,
+  ServerOnlyRules,
+} from "./clientValidators";
+export { OneOfInput } from "./oneOf";
+export {
+  extendRules,
+  mergeRules,
+  omitRules,
+  pickRules,
+  prefixRules,
+  TransformerRuleSet,
+  ValidatorRuleSet,
+} from "./ruleSets";
+export {
+  ArgsParseResult,
+  ArgsSchema,
+  ArgsSchemaConfig,
+  ArgsSchemaTransform,
+  ArgsSchemaValidate,
+  createArgsSchema,
+} from "./argsSchema";
+export {
+  DEFAULT_LOCALE,
+  DEFAULT_MESSAGES,
+  formatErrorMessage,
+  interpolateMessage,
+  localizeErrorsTree,
+  MessageCatalog,
+  MessagesConfig,
+  MessageTemplate,
+} from "./messages";
 
 /**
  * undefined means validation passed.
@@ -27,63 +132,227 @@ export type ValidationResultError =
  * First element represents error code
  *
  * Second element represents any extras related to validation
+ *
+ * Third element is the human-readable message, attached by the plugin when `messages` is configured
  */
-export type BaseValidationResultError = [string, ValidationResultErrorExtras];
+export type BaseValidationResultError = [
+  string,
+  ValidationResultErrorExtras,
+  string?
+];
 
 export type ValidationResultErrorExtras = Record<
   string,
   number | string | boolean
 > | null;
 
+/**
+ * Known for validators created by `defineValidator` (including all built-in validators)
+ */
+export interface ValidatorMetadata {
+  code: string;
+  extras: ValidationResultErrorExtras;
+}
+
+/**
+ * Identifies a built-in validator along with the params it's created with
+ */
+export interface ValidatorRule {
+  name: string;
+  params: Record<string, ValidatorRuleParam>;
+}
+
+/**
+ * Params are serialized as JSON
+ */
+export type ValidatorRuleParam =
+  | number
+  | string
+  | boolean
+  | null
+  | ValidatorRuleParam[];
+
 export type ErrorsTree = {
   [key: string]: ValidationResultError | ErrorsTree;
 };
 
-export type Validator<T> = (arg: T) => MaybePromise<ValidationResult>;
+/**
+ * {@link signal} is aborted once the outcome of validation is decided (e.g. another arg failed with `abortEarly`)
+ * or validation timed out, so that async validators can cancel in-flight work.
+ * It's undefined where `AbortController` is not available (before Node 15)
+ */
+export type Validator<T> = (
+  arg: T,
+  signal?: AbortSignal
+) => MaybePromise<ValidationResult>;
+
+/**
+ * undefined means validation passed. Otherwise, errors are reported against one or more keys of the validated object
+ */
+export type ObjectValidationResult<T> =
+  | { [key in keyof T]?: ValidationResultError | ErrorsTree }
+  | undefined;
+
+/**
+ * Validator that receives a whole object (args object or nested input object) which gives access to sibling values
+ */
+export type ObjectValidator<T> = (
+  obj: T,
+  signal?: AbortSignal
+) => MaybePromise<ObjectValidationResult<T>>;
 
 export type Transformer<T> = (arg: T) => MaybePromise<T>;
 
-type BaseValidatorTree<
-  T extends string,
-  F extends string,
+/**
+ * {@link RootArgs} are the args received by the predicates of conditional nodes (See {@link when})
+ */
+export type BaseValidatorTree<
+  RootArgs,
   Args extends ArgsValue<string, string>
 > = {
-  [key in keyof Args]?: Args[key] extends
-    | { [key: string]: unknown }
-    | null
-    | undefined
-    ?
-        | BaseValidatorTree<T, F, Args[key]>
-        | Validator<Args[key]>
-        | Validator<Args[key]>[]
-    : Validator<Args[key]> | Validator<Args[key]>[];
-};
+  [key in keyof Args]?: ValidatorTreeNode<RootArgs, Args[key]>;
+} & SelfNode<ObjectValidator<NonNullable<Args>>>;
+
+type ValidatorTreeNode<RootArgs, Arg> =
+  | Validator<Arg>
+  | Validator<Arg>[]
+  | ([Arg] extends [{ [key: string]: unknown } | null | undefined]
+      ? BaseValidatorTree<RootArgs, Arg>
+      : never)
+  | ([NonNullable<Arg>] extends [ReadonlyArray<infer Element>]
+      ? EachNode<ValidatorTreeNode<RootArgs, Element>>
+      : never)
+  | ConditionalNode<RootArgs, ValidatorTreeNode<RootArgs, Arg>>
+  | ExtendNode<ValidatorTreeNode<RootArgs, Arg>>;
 
 type ValidatorTree<
   TypeName extends string,
   FieldName extends string
-> = BaseValidatorTree<TypeName, FieldName, ArgsValue<TypeName, FieldName>>;
+> = BaseValidatorTree<
+  ArgsValue<TypeName, FieldName>,
+  ArgsValue<TypeName, FieldName>
+>;
 
-type BaseTransformerTree<
-  T extends string,
-  F extends string,
-  Args extends ArgsValue<string, string>
-> = {
-  [key in keyof Args]?: Args[key] extends
-    | { [key: string]: unknown }
-    | null
-    | undefined
-    ?
-        | BaseTransformerTree<T, F, Args[key]>
-        | Transformer<Args[key]>
-        | Transformer<Args[key]>[]
-    : Transformer<Args[key]> | Transformer<Args[key]>[];
+export type BaseTransformerTree<Args extends ArgsValue<string, string>> = {
+  [key in keyof Args]?: TransformerTreeNode<Args[key]>;
 };
 
+type TransformerTreeNode<Arg> =
+  | Transformer<Arg>
+  | Transformer<Arg>[]
+  | ([Arg] extends [{ [key: string]: unknown } | null | undefined]
+      ? BaseTransformerTree<Arg>
+      : never)
+  | ([NonNullable<Arg>] extends [ReadonlyArray<infer Element>]
+      ? EachNode<TransformerTreeNode<Element>>
+      : never)
+  | ExtendNode<TransformerTreeNode<Arg>>;
+
 type TransformerTree<
   TypeName extends string,
   FieldName extends string
-> = BaseTransformerTree<TypeName, FieldName, ArgsValue<TypeName, FieldName>>;
+> = BaseTransformerTree<ArgsValue<TypeName, FieldName>>;
+
+/**
+ * Apply validators/transformers to every element of a list argument.
+ * Errors of list elements are keyed by the element index in `errorsTree`
+ *
+ * @example
+ * ```
+ * validate: () => ({
+ *   teamsIds: each(nonEmpty()),
+ *   profiles: each({ bio: maxSize(200) }),
+ * })
+ * ```
+ */
+export function each<N>(node: N): EachNode<N> {
+  return createEachNode(node);
+}
+
+/**
+ * Keep the rules declared on input types (and input fields) for an argument, and apply {@link node} after them,
+ * rather than replacing them. Same goes for the rules of the base tree of `mergeRules`.
+ * It's only supported in field-level trees and in the override of `mergeRules`
+ *
+ * @example
+ * ```
+ * validate: {
+ *   userCreateInput: { username: extend(notValidator(oneOf(reservedUsernames), ["reserved", null])) },
+ * }
+ * ```
+ */
+export function extend<N>(node: N): ExtendNode<N> {
+  return createExtendNode(node);
+}
+
+/**
+ * Attach an object validator to the args object or a nested input object.
+ * It runs after the validators of {@link tree}, and its errors are merged into `errorsTree`
+ *
+ * @example
+ * ```
+ * validate: () =>
+ *   validateObject(
+ *     ({ startDate, endDate }) =>
+ *       endDate <= startDate ? { endDate: ["after-start-date", null] } : undefined,
+ *     { title: nonEmpty() }
+ *   )
+ * ```
+ */
+export function validateObject<
+  T,
+  Tree extends TraversableObject = Record<never, never>
+>(
+  validator: ObjectValidator<T>,
+  tree: Tree = {} as Tree
+): Tree & SelfNode<ObjectValidator<T>> {
+  return withSelfValue(tree, validator);
+}
+
+/**
+ * Choose validators (or a nested validator tree) according to the args of the resolver (after transformation).
+ * If {@link predicate} returns false and {@link otherwise} isn't provided, the node is not validated
+ *
+ * Note: Conditional validators are neither included in the validation metadata nor run by client validators
+ *
+ * @example
+ * ```
+ * validate: {
+ *   companyName: when((args) => args.accountType === "BUSINESS", nonEmpty()),
+ *   vatNumber: when(
+ *     (args) => args.country === "DE",
+ *     pattern(/^DE\d{9}$/),
+ *     maxSize(20)
+ *   ),
+ * }
+ * ```
+ */
+export function when<Args, Then, Otherwise = Then>(
+  predicate: (args: Args) => boolean,
+  then: Then,
+  otherwise?: Otherwise
+): ConditionalNode<Args, Then | Otherwise> {
+  return createConditionalNode<Args, Then | Otherwise>(
+    predicate,
+    then,
+    otherwise
+  );
+}
+
+/**
+ * Same as {@link when} but {@link then} is chosen when {@link predicate} returns false
+ */
+export function unless<Args, Then, Otherwise = Then>(
+  predicate: (args: Args) => boolean,
+  then: Then,
+  otherwise?: Otherwise
+): ConditionalNode<Args, Then | Otherwise> {
+  return createConditionalNode<Args, Then | Otherwise>(
+    (args) => !predicate(args),
+    then,
+    otherwise
+  );
+}
 
 export type ValidateResolver<
   TypeName extends string,
@@ -95,12 +364,134 @@ export type TransformResolver<
   FieldName extends string
 > = Resolver<TypeName, FieldName, TransformerTree<TypeName, FieldName>>;
 
+/**
+ * Either a static validator tree or a resolver returning it.
+ * Static trees are included in the validation metadata (See {@link getValidationMetadata})
+ */
+export type ValidateConfig<TypeName extends string, FieldName extends string> =
+  | ValidateResolver<TypeName, FieldName>
+  | ValidatorTree<TypeName, FieldName>;
+
+/**
+ * Either a static transformer tree or a resolver returning it
+ */
+export type TransformConfig<
+  TypeName extends string,
+  FieldName extends string
+> =
+  | TransformResolver<TypeName, FieldName>
+  | TransformerTree<TypeName, FieldName>;
+
+/**
+ * Validator tree of the value returned from the resolver. Conditional validators (See {@link when}) receive the args of the resolver
+ */
+export type ResultValidate<
+  TypeName extends string,
+  FieldName extends string
+> = ValidatorTreeNode<
+  ArgsValue<TypeName, FieldName>,
+  ResultValue<TypeName, FieldName>
+>;
+
+/**
+ * Rules applied to every argument (and input field) of a scalar type. See `scalarRules` of {@link ArgsValidatorPluginConfig}
+ */
+export interface ScalarRules {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  transform?: Transformer<any> | Transformer<any>[];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  validate?: Validator<any> | Validator<any>[];
+}
+
+/**
+ * Validation declared on an input object type. Applies wherever the input type is used as an argument
+ */
+export type InputTypeValidate<TypeName extends string> = BaseValidatorTree<
+  ArgsValue<string, string>,
+  InputTypeValue<TypeName>
+>;
+
+/**
+ * Transformation declared on an input object type. Applies wherever the input type is used as an argument
+ */
+export type InputTypeTransform<TypeName extends string> = BaseTransformerTree<
+  InputTypeValue<TypeName>
+>;
+
+/**
+ * Validation declared on a field of an input object type
+ */
+export type InputFieldValidate<
+  TypeName extends string,
+  FieldName extends string
+> = ValidatorTreeNode<
+  ArgsValue<string, string>,
+  InputFieldValue<TypeName, FieldName>
+>;
+
+/**
+ * Transformation declared on a field of an input object type
+ */
+export type InputFieldTransform<
+  TypeName extends string,
+  FieldName extends string
+> = TransformerTreeNode<InputFieldValue<TypeName, FieldName>>;
+
 export type GeneralArgsValue = TraversableObject;
 
+/**
+ * Info about the resolver whose args failed validation
+ */
+export interface ValidationErrorInfo {
+  root: unknown;
+
+  /**
+   * Args after transformation
+   */
+  args: GeneralArgsValue;
+
+  /**
+   * Args as received by the resolver (before transformation)
+   */
+  originalArgs: GeneralArgsValue;
+
+  ctx: GetGen<"context">;
+
+  info: GraphQLResolveInfo;
+}
+
+/**
+ * Info about the resolver whose result failed validation
+ */
+export interface ResultValidationErrorInfo {
+  root: unknown;
+
+  /**
+   * Args passed to the resolver (after transformation)
+   */
+  args: GeneralArgsValue;
+
+  /**
+   * Value returned from the resolver
+   */
+  result: unknown;
+
+  ctx: GetGen<"context">;
+
+  info: GraphQLResolveInfo;
+}
+
 export interface ArgsValidatorPluginConfig {
   /**
    * This is where you handle the validation errors.
    * Mostly you will be throwing an error containing `errorsTree`.
+   * Defaults to throwing {@link ArgsValidationError}
+   *
+   * Anything returned (other than undefined) is used as the result of the field
+   * which allows modeling validation errors as data (e.g. returning a member of a union)
+   *
+   * Note: Not called for fields whose type includes `ArgsValidationFailed`, See {@link argsValidationFailedTypes}
    * 
    * @example
    * ```
@@ -113,21 +504,151 @@ export interface ArgsValidatorPluginConfig {
     );
    * ```
    * @param errorsTree - an object containing the fields that failed validation. the key is the field name, the value is the error code
+   * @param errorInfo - root, args, context and info of the resolver along with the original untransformed args
    */
-  onValidationError: (errorsTree: ErrorsTree) => void;
+  onValidationError?: (
+    errorsTree: ErrorsTree,
+    errorInfo: ValidationErrorInfo
+  ) => unknown;
+
+  /**
+   * Called when the value returned from a resolver fails its `validateResult` tree.
+   * Defaults to throwing {@link ResultValidationError}
+   *
+   * Anything returned (other than undefined) is used as the result of the field instead,
+   * otherwise the original result is used (e.g. when only logging the errors)
+   *
+   * @param errors - errors tree if the result is an object, otherwise the validation error of the result
+   */
+  onResultValidationError?: (
+    errors: ValidationResultError | ErrorsTree,
+    errorInfo: ResultValidationErrorInfo
+  ) => unknown;
+
+  /**
+   * If false, `validateResult` trees are ignored (e.g. in production). Defaults to true
+   */
+  validateResults?: boolean;
 
   /**
    * Stop once an argument fails validation.
    * If true, errorsTree passed to {@link onValidationError} will consist of only one field
    */
   abortEarly?: boolean;
+
+  /**
+   * Milliseconds within which each async validator and transformer has to finish.
+   * Validators that don't finish in time fail with {@link timeoutErrorCode}, and transformers throw {@link TransformTimeoutError}.
+   * Use `withTimeout` for the timeout of a single validator
+   */
+  timeout?: number;
+
+  /**
+   * Error code of validators that time out. Defaults to "validation-timeout"
+   */
+  timeoutErrorCode?: string;
+
+  /**
+   * Passed to the {@link ArgsValidationError} thrown when {@link onValidationError} is not provided.
+   * If true, the errors tree is flattened into a list of errors with paths. Defaults to false
+   */
+  flattenErrors?: boolean;
+
+  /**
+   * Whether `validationMetadata.outputPath` and `clientValidators.outputPath` are written once the schema is built,
+   * like `shouldGenerateArtifacts` of `makeSchema`. Defaults to `process.env.NODE_ENV !== "production"`
+   */
+  shouldGenerateArtifacts?: boolean;
+
+  /**
+   * Export the metadata (error codes and extras) of the validators of each field args.
+   * Useful to generate matching client-side validation.
+   * Only validators created by `defineValidator` (including built-in validators) are known. See {@link getValidationMetadata}
+   */
+  validationMetadata?: {
+    /**
+     * If true, the metadata is added to `extensions.validationMetadata` of each field
+     */
+    extensions?: boolean;
+
+    /**
+     * If provided, the metadata of all fields is written as JSON to this path once the schema is built
+     * (e.g. next to nexus typegen output)
+     */
+    outputPath?: string;
+  };
+
+  /**
+   * Generate a standalone TypeScript module with a validation function per mutation
+   * that runs the built-in validators on the client. See {@link generateClientValidators}
+   */
+  clientValidators?: {
+    /**
+     * The module is written to this path once the schema is built
+     */
+    outputPath: string;
+  };
+
+  /**
+   * Rules applied to every argument (and input field, at any nesting depth) of a scalar type, keyed by the scalar name.
+   * They run before the rules of fields and input types (which are combined with them rather than replacing them).
+   * Set `skipScalarRules: true` on a field, an argument or an input field to opt out
+   *
+   * @example
+   * ```
+   * scalarRules: {
+   *   String: { transform: trim, validate: maxSize(10000) },
+   *   Float: { validate: finite() },
+   *   EmailAddress: { transform: [trim, lowercase] },
+   * }
+   * ```
+   */
+  scalarRules?: Record<string, ScalarRules>;
+
+  /**
+   * Attach a human-readable message to each validation error (`[code, extras, message]`),
+   * so that thrown errors and `ArgsValidationFailed` errors include a `message` alongside the `code`.
+   * Default English messages are provided for all built-in validators
+   *
+   * @example
+   * ```
+   * messages: {
+   *   catalogs: {
+   *     en: { "not-unique": "is already taken" },
+   *     fr: { "min-size": "doit contenir au moins {n} caractères" },
+   *   },
+   *   getLocale: (ctx) => ctx.locale,
+   * }
+   * ```
+   */
+  messages?: MessagesConfig & {
+    /**
+     * Locale of the request. Messages of the default locale are used if not provided
+     */
+    getLocale?: (ctx: GetGen<"context">) => string | null | undefined;
+  };
 }
 
 export const argsValidatorPlugin = ({
   onValidationError,
+  onResultValidationError,
+  validateResults = true,
   abortEarly = false,
-}: ArgsValidatorPluginConfig) =>
-  plugin({
+  timeout,
+  timeoutErrorCode = "validation-timeout",
+  flattenErrors = false,
+  shouldGenerateArtifacts = process.env.NODE_ENV !== "production",
+  validationMetadata,
+  clientValidators,
+  scalarRules,
+  messages,
+}: ArgsValidatorPluginConfig = {}) => {
+  const validationTimeout: ValidationTimeout | undefined =
+    timeout === undefined
+      ? undefined
+      : { ms: timeout, errorCode: timeoutErrorCode };
+
+  return plugin({
     name: "Args Validator / Transformer plugin",
 
     description: "Plugin for validation and transformation of arguments",
@@ -137,11 +658,11 @@ export const argsValidatorPlugin = ({
         optional: true,
         name: "validate",
         description: "Validation for arguments",
-        type: "ValidateResolver<TypeName, FieldName>",
+        type: "ValidateConfig<TypeName, FieldName>",
         imports: [
           printedGenTypingImport({
             module: join(__dirname, "."),
-            bindings: ["ValidateResolver"],
+            bindings: ["ValidateConfig"],
           }),
         ],
       }),
@@ -149,32 +670,230 @@ export const argsValidatorPlugin = ({
         optional: true,
         name: "transform",
         description: "Transformation for arguments",
-        type: "TransformResolver<TypeName, FieldName>",
+        type: "TransformConfig<TypeName, FieldName>",
+        imports: [
+          printedGenTypingImport({
+            module: join(__dirname, "."),
+            bindings: ["TransformConfig"],
+          }),
+        ],
+      }),
+      printedGenTyping({
+        optional: true,
+        name: "validateResult",
+        description: "Validation for the value returned from the resolver",
+        type: "ResultValidate<TypeName, FieldName>",
+        imports: [
+          printedGenTypingImport({
+            module: join(__dirname, "."),
+            bindings: ["ResultValidate"],
+          }),
+        ],
+      }),
+      printedGenTyping({
+        optional: true,
+        name: "skipScalarRules",
+        description:
+          "If true, the scalar rules of the plugin config don't apply to any of the arguments",
+        type: "boolean",
+      }),
+    ],
+
+    inputObjectTypeDefTypes: [
+      printedGenTyping({
+        optional: true,
+        name: "validate",
+        description:
+          "Validation for the fields of the input type wherever it's used as an argument",
+        type: "InputTypeValidate<TypeName>",
+        imports: [
+          printedGenTypingImport({
+            module: join(__dirname, "."),
+            bindings: ["InputTypeValidate"],
+          }),
+        ],
+      }),
+      printedGenTyping({
+        optional: true,
+        name: "oneOf",
+        description:
+          "If true, exactly one field of the input type has to be set (non-null). Null fields are removed from the args passed to the resolver",
+        type: "boolean",
+      }),
+      printedGenTyping({
+        optional: true,
+        name: "transform",
+        description:
+          "Transformation for the fields of the input type wherever it's used as an argument",
+        type: "InputTypeTransform<TypeName>",
+        imports: [
+          printedGenTypingImport({
+            module: join(__dirname, "."),
+            bindings: ["InputTypeTransform"],
+          }),
+        ],
+      }),
+    ],
+
+    inputFieldDefTypes: [
+      printedGenTyping({
+        optional: true,
+        name: "validate",
+        description: "Validation for the input field",
+        type: "InputFieldValidate<TypeName, FieldName>",
+        imports: [
+          printedGenTypingImport({
+            module: join(__dirname, "."),
+            bindings: ["InputFieldValidate"],
+          }),
+        ],
+      }),
+      printedGenTyping({
+        optional: true,
+        name: "transform",
+        description: "Transformation for the input field",
+        type: "InputFieldTransform<TypeName, FieldName>",
         imports: [
           printedGenTypingImport({
             module: join(__dirname, "."),
-            bindings: ["TransformResolver"],
+            bindings: ["InputFieldTransform"],
           }),
         ],
       }),
+      printedGenTyping({
+        optional: true,
+        name: "constraints",
+        description:
+          "Constraints for the input field, printed as directives in the schema",
+        type: "Constraints",
+        imports: [
+          printedGenTypingImport({
+            module: join(__dirname, "."),
+            bindings: ["Constraints"],
+          }),
+        ],
+      }),
+      printedGenTyping({
+        optional: true,
+        name: "skipScalarRules",
+        description:
+          "If true, the scalar rules of the plugin config don't apply to the input field",
+        type: "boolean",
+      }),
     ],
 
+    argTypeDefTypes: [
+      printedGenTyping({
+        optional: true,
+        name: "constraints",
+        description:
+          "Constraints for the argument, printed as directives in the schema",
+        type: "Constraints",
+        imports: [
+          printedGenTypingImport({
+            module: join(__dirname, "."),
+            bindings: ["Constraints"],
+          }),
+        ],
+      }),
+      printedGenTyping({
+        optional: true,
+        name: "skipScalarRules",
+        description:
+          "If true, the scalar rules of the plugin config don't apply to the argument",
+        type: "boolean",
+      }),
+    ],
+
+    onAfterBuild(schema) {
+      const metadataOutputPath = shouldGenerateArtifacts
+        ? validationMetadata?.outputPath
+        : undefined;
+
+      if (validationMetadata?.extensions || metadataOutputPath) {
+        const manifest = getValidationMetadata(schema, scalarRules);
+
+        if (validationMetadata?.extensions) {
+          addValidationMetadataExtensions(schema, manifest);
+        }
+
+        if (metadataOutputPath) {
+          writeValidationMetadata(metadataOutputPath, manifest);
+        }
+      }
+
+      if (clientValidators && shouldGenerateArtifacts) {
+        writeClientValidators(clientValidators.outputPath, schema, {
+          abortEarly,
+          scalarRules,
+        });
+      }
+    },
+
+    onAddInputField(field) {
+      // Input fields don't keep their config around like output fields do, so we keep it in the extensions
+      const { validate, transform, constraints, skipScalarRules } =
+        field as TraversableObject;
+
+      if (validate || transform || constraints || skipScalarRules) {
+        return {
+          ...field,
+          extensions: {
+            ...field.extensions,
+            nexus: { config: field },
+          },
+        };
+      }
+    },
+
+    onAddArg(arg) {
+      // Same as input fields
+      const { constraints, skipScalarRules } = arg as TraversableObject;
+
+      if (constraints || skipScalarRules) {
+        return {
+          ...arg,
+          extensions: {
+            ...arg.extensions,
+            nexus: { config: arg },
+          },
+        };
+      }
+    },
+
     onCreateFieldResolver(config) {
-      const validate: ValidateResolver<string, string> =
+      const validate: ValidateConfig<string, string> =
         config.fieldConfig.extensions?.nexus?.config.validate;
 
-      const transform: TransformResolver<string, string> =
+      const transform: TransformConfig<string, string> =
         config.fieldConfig.extensions?.nexus?.config.transform;
 
-      // If both fields don't exist, our work is done here
-      if (validate === null && transform === null) {
+      const argsConfig = config.fieldConfig.args;
+
+      const validateResult: MaybeNull<ResultValidate<string, string>> =
+        validateResults
+          ? config.fieldConfig.extensions?.nexus?.config.validateResult ?? null
+          : null;
+
+      const fieldScalarRules =
+        config.fieldConfig.extensions?.nexus?.config.skipScalarRules === true
+          ? undefined
+          : scalarRules;
+
+      // If there are no args nor any of the fields, our work is done here
+      if (
+        (!argsConfig || Object.keys(argsConfig).length === 0) &&
+        !validate &&
+        !transform &&
+        !validateResult
+      ) {
         return;
       }
 
-      // If any of them is not a function, it's wrong - let's provide a warning
+      // If any of them is neither a function nor an object, it's wrong - let's provide a warning
       if (
-        (validate && typeof validate !== "function") ||
-        (transform && typeof transform !== "function")
+        (validate && !["function", "object"].includes(getType(validate))) ||
+        (transform && !["function", "object"].includes(getType(transform)))
       ) {
         console.error(
           new Error(
@@ -182,89 +901,383 @@ export const argsValidatorPlugin = ({
               config.fieldConfig.name
             } with type ${
               config.fieldConfig.type
-            } should be a function, saw ${typeof validate}`
+            } should be a function or an object, saw ${typeof validate}`
           )
         );
         return;
       }
 
+      // Input types are not guaranteed to be fully built at this point, so trees derived from them are lazily computed
+      let argsTypeTrees: MaybeNull<{
+        validate: MaybeNull<TraversableObject>;
+        transform: MaybeNull<TraversableObject>;
+        scalarValidate: MaybeNull<TraversableObject>;
+        scalarTransform: MaybeNull<TraversableObject>;
+        hasOneOfInputs: boolean;
+      }> = null;
+
+      let resolvesToArgsValidationFailed: MaybeNull<boolean> = null;
+
       return (root, args: GeneralArgsValue | undefined, ctx, info, next) => {
-        if (!args) return next(root, args, ctx, info);
+        const resolve = (resolvedArgs: GeneralArgsValue | undefined) => {
+          const resultOrPromise = next(root, resolvedArgs, ctx, info);
+
+          if (!validateResult) return resultOrPromise;
+
+          return completeValue(resultOrPromise, (result) =>
+            completeValue(
+              findResultErrors(
+                result,
+                validateResult,
+                resolvedArgs || {},
+                abortEarly,
+                validationTimeout
+              ),
+              (errors) => {
+                if (errors === undefined) return result;
+
+                if (onResultValidationError) {
+                  const replacement = onResultValidationError(errors, {
+                    root,
+                    args: resolvedArgs || {},
+                    result,
+                    ctx,
+                    info,
+                  });
+
+                  return replacement === undefined ? result : replacement;
+                }
+
+                throw new ResultValidationError(errors);
+              }
+            )
+          );
+        };
+
+        if (!args) return resolve(args);
+
+        if (!argsTypeTrees) {
+          argsTypeTrees = {
+            validate: getArgsTypeTree(argsConfig, "validate"),
+            transform: getArgsTypeTree(argsConfig, "transform"),
+            scalarValidate: fieldScalarRules
+              ? getScalarRulesTree(argsConfig, "validate", fieldScalarRules)
+              : null,
+            scalarTransform: fieldScalarRules
+              ? getScalarRulesTree(argsConfig, "transform", fieldScalarRules)
+              : null,
+            hasOneOfInputs: hasOneOfInputs(argsConfig),
+          };
+        }
 
-        const transformedArgsOrPromise = transform
-          ? applyTransforms(args, transform(root, args, ctx, info))
+        const transformerTree = combineNodes(
+          argsTypeTrees.scalarTransform,
+          mergeNodes(
+            argsTypeTrees.transform,
+            typeof transform === "function"
+              ? transform(root, args, ctx, info)
+              : transform
+          )
+        ) as MaybeNull<TransformerTree<string, string>>;
+
+        const transformedArgsOrPromise = transformerTree
+          ? applyTransforms(args, transformerTree, timeout)
           : args;
 
         return completeValue(transformedArgsOrPromise, (transformedArgs) => {
-          if (validate) {
+          const validatorTree = combineNodes(
+            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+            argsTypeTrees!.scalarValidate,
+            mergeNodes(
+              // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+              argsTypeTrees!.validate,
+              typeof validate === "function"
+                ? validate(root, transformedArgs, ctx, info)
+                : validate
+            )
+          ) as MaybeNull<ValidatorTree<string, string>>;
+
+          if (validatorTree) {
             const errorsTreeOrPromise = findErrors(
               transformedArgs,
-              validate(root, transformedArgs, ctx, info),
-              abortEarly
+              validatorTree,
+              abortEarly,
+              validationTimeout
             );
 
             return completeValue(errorsTreeOrPromise, (errorsTree) => {
               if (errorsTree) {
-                onValidationError(errorsTree);
+                if (messages) {
+                  errorsTree = localizeErrorsTree(
+                    errorsTree,
+                    messages.getLocale && messages.getLocale(ctx),
+                    messages
+                  );
+                }
+
+                if (resolvesToArgsValidationFailed === null) {
+                  resolvesToArgsValidationFailed =
+                    canResolveToArgsValidationFailed(
+                      info.schema,
+                      info.returnType
+                    );
+                }
+
+                if (resolvesToArgsValidationFailed) {
+                  return createArgsValidationFailed(errorsTree);
+                } else if (onValidationError) {
+                  return onValidationError(errorsTree, {
+                    root,
+                    args: transformedArgs,
+                    originalArgs: args,
+                    ctx,
+                    info,
+                  });
+                } else {
+                  throw new ArgsValidationError(errorsTree, {
+                    flatten: flattenErrors,
+                  });
+                }
               } else {
-                return next(root, transformedArgs, ctx, info);
+                return resolve(
+                  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+                  argsTypeTrees!.hasOneOfInputs && argsConfig
+                    ? narrowOneOfInputs(transformedArgs, argsConfig)
+                    : transformedArgs
+                );
               }
             });
           } else {
-            return next(root, transformedArgs, ctx, info);
+            return resolve(transformedArgs);
           }
         });
       };
     },
   });
+};
+
+/**
+ * Timeout of async validators (See `timeout` of the plugin config)
+ */
+export interface ValidationTimeout {
+  ms: number;
+  errorCode: string;
+}
 
 export function findErrors(
   args: GeneralArgsValue,
   validatorTree: ValidatorTree<string, string>,
-  abortEarly: boolean
+  abortEarly: boolean,
+  timeout?: ValidationTimeout,
+  /**
+   * Args received by the predicates of conditional nodes (See {@link when}). Defaults to {@link args}
+   */
+  conditionArgs: GeneralArgsValue = args
 ): MaybePromise<MaybeNull<ErrorsTree>> {
-  return mapObject(
+  // Aborted once the errors are found, so that validators still in flight can cancel their work.
+  // AbortController is missing before Node 15, in which case validators receive no signal
+  const controller =
+    typeof AbortController === "undefined" ? undefined : new AbortController();
+  const settleOnAbort: ((value: undefined) => void)[] = [];
+  let aborted = false;
+  const abort = () => {
+    if (!aborted) {
+      aborted = true;
+      controller?.abort();
+      settleOnAbort.forEach((settle) => settle(undefined));
+    }
+  };
+
+  const errorsTreeOrPromise = mapObject(
     validatorTree,
     (validator, arg) => {
       const valueType = getType(validator);
+      let validationResultOrPromise: MaybePromise<ValidationResult>;
 
       if (valueType === "array") {
-        return andValidators(
+        validationResultOrPromise = andValidators(
           validator as [
             Validator<unknown>,
             Validator<unknown>,
             ...Validator<unknown>[]
           ]
-        )(arg);
+        )(arg, controller?.signal);
       } else if (valueType === "function") {
-        return (validator as Validator<unknown>)(arg);
+        validationResultOrPromise = (validator as Validator<unknown>)(
+          arg,
+          controller?.signal
+        );
+      } else {
+        return validator;
       }
 
-      return validator;
+      if (!isPromiseLike(validationResultOrPromise)) {
+        return validationResultOrPromise;
+      }
+
+      const validationResultPromise = timeout
+        ? raceTimeout(
+            validationResultOrPromise,
+            timeout.ms,
+            (): ValidationResultError => [
+              timeout.errorCode,
+              { timeout: timeout.ms },
+            ]
+          )
+        : validationResultOrPromise;
+
+      if (!abortEarly) {
+        return validationResultPromise;
+      }
+
+      // Once an error is found, the results of the other validators don't matter
+      return new Promise<ValidationResult>((resolve, reject) => {
+        settleOnAbort.push(resolve);
+        validationResultPromise.then((validationResult) => {
+          resolve(validationResult);
+          if (validationResult !== undefined) abort();
+        }, reject);
+      });
     },
     {
       relatedObj: args,
       skipValueCondition: (mappedValue) => mappedValue === undefined,
-      skipBranchCondition: (_, relatedValue) => !relatedValue,
+      // Only presence validators run for missing objects (and lists)
+      mapBranch: (branch, relatedValue) =>
+        relatedValue === undefined || relatedValue === null
+          ? pickPresenceValidators(branch)
+          : branch,
       searchFor: abortEarly
         ? (mappedValue) => mappedValue !== undefined
         : undefined,
+      // Conditional nodes are resolved as they are reached, since trees of recursive input types are cyclic
+      mapNode: (node) => resolveConditionalNode(node, conditionArgs),
+      mergeSelfValue: mergeErrors,
     }
   );
+
+  return completeValue(errorsTreeOrPromise, (errorsTree) => {
+    abort();
+    return errorsTree;
+  });
+}
+
+/**
+ * @returns errors of {@link result} (errors tree if {@link result} is an object). Undefined if validation passes
+ */
+function findResultErrors(
+  result: unknown,
+  resultValidate: ResultValidate<string, string>,
+  args: GeneralArgsValue,
+  abortEarly: boolean,
+  timeout: ValidationTimeout | undefined
+): MaybePromise<ValidationResultError | ErrorsTree | undefined> {
+  // Validated as a field of a wrapping object, so that results of any type are supported
+  return completeValue(
+    findErrors(
+      { result },
+      { result: resultValidate } as ValidatorTree<string, string>,
+      abortEarly,
+      timeout,
+      // Conditional nodes are chosen according to the args rather than the wrapping object
+      args
+    ),
+    (errorsTree) => (errorsTree ? errorsTree.result : undefined)
+  );
+}
+
+/**
+ * @returns validator tree that consists of only the presence validators of {@link node} (See {@link isPresenceValidator})
+ * and of its each nodes (for the lists themselves). Nested objects are left out since they are missing as well,
+ * which also keeps the traversal of recursive input types finite
+ */
+function pickPresenceValidators(node: TraversableObject): TraversableObject {
+  const pickedNode: TraversableObject = {};
+
+  for (const key of Object.keys(node)) {
+    const pickedValue = pickPresenceValidatorsHelper(node[key]);
+
+    if (pickedValue !== undefined) {
+      pickedNode[key] = pickedValue;
+    }
+  }
+
+  const selfValue = pickPresenceValidatorsHelper(getSelfValue(node));
+
+  return selfValue === undefined
+    ? pickedNode
+    : withSelfValue(pickedNode, selfValue);
+}
+
+function pickPresenceValidatorsHelper(node: unknown): unknown {
+  if (isEachNode(node)) {
+    // The list is missing, so only validators of the list itself are left
+    const selfValue = pickPresenceValidatorsHelper(getSelfValue(node));
+    return selfValue === undefined ? undefined : withSelfValue({}, selfValue);
+  }
+
+  if (getType(node) === "object") {
+    return undefined;
+  }
+
+  if (Array.isArray(node)) {
+    const validators = node.filter(isPresenceValidator);
+    return validators.length === 0 ? undefined : validators;
+  }
+
+  return isPresenceValidator(node) ? node : undefined;
+}
+
+/**
+ * Merges errors of object validators with errors of the validators of the object fields.
+ * Validation errors reported for the same field are combined into an array
+ */
+function mergeErrors(existingErrors: unknown, errors: unknown): unknown {
+  if (existingErrors === undefined || existingErrors === null) {
+    return errors;
+  }
+
+  if (getType(existingErrors) === "object" && getType(errors) === "object") {
+    const mergedErrors: ErrorsTree = { ...(existingErrors as ErrorsTree) };
+
+    for (const key of Object.keys(errors as ErrorsTree)) {
+      const error = (errors as ErrorsTree)[key];
+
+      if (error !== undefined) {
+        mergedErrors[key] = mergeErrors(mergedErrors[key], error) as
+          | ValidationResultError
+          | ErrorsTree;
+      }
+    }
+
+    return mergedErrors;
+  }
+
+  if (getType(existingErrors) === "object" || getType(errors) === "object") {
+    // Can't combine an errors tree with a validation error, the error of the object validator takes precedence
+    return errors;
+  }
+
+  return [existingErrors, errors];
 }
 
+/**
+ * @param timeout milliseconds within which each async transformer has to finish, otherwise {@link TransformTimeoutError} is thrown
+ */
 export function applyTransforms(
   args: GeneralArgsValue,
-  transformerTree: TransformerTree<string, string>
+  transformerTree: TransformerTree<string, string>,
+  timeout?: number
 ): MaybePromise<GeneralArgsValue> {
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   return mapObject(
     transformerTree,
     (transformer, arg) => {
       const valueType = getType(transformer);
+      let transformedArgOrPromise: MaybePromise<unknown>;
 
       if (valueType === "array") {
-        return combineTransformers(
+        transformedArgOrPromise = combineTransformers(
           transformer as [
             Transformer<unknown>,
             Transformer<unknown>,
@@ -272,13 +1285,19 @@ export function applyTransforms(
           ]
         )(arg);
       } else if (valueType === "function") {
-        return (transformer as Transformer<unknown>)(arg);
+        transformedArgOrPromise = (transformer as Transformer<unknown>)(arg);
+      } else {
+        return transformer;
       }
 
-      return transformer;
+      return timeout !== undefined && isPromiseLike(transformedArgOrPromise)
+        ? raceTimeout(transformedArgOrPromise, timeout, () => {
+            throw new TransformTimeoutError(timeout);
+          })
+        : transformedArgOrPromise;
     },
     {
-      initialValue: args,
+      initialValue: clonePlainObject(args), // Args are not mutated
       relatedObj: args,
       skipBranchCondition: (_, relatedValue) => !relatedValue,
     }
@@ -0,0 +1,195 @@
+import { getType } from "jest-get-type";
+
+import {
+  BaseValidationResultError,
+  ErrorsTree,
+  ValidationResultError,
+  ValidationResultErrorExtras,
+} from ".";
+
+/**
+ * Either a template where `{key}` is replaced by the corresponding value of the error extras
+ * (e.g. `"must be at least {n}"`) or a function of the extras
+ */
+export type MessageTemplate =
+  | string
+  | ((extras: ValidationResultErrorExtras) => string);
+
+/**
+ * Messages of a locale keyed by error code
+ */
+export type MessageCatalog = Record<string, MessageTemplate>;
+
+export const DEFAULT_LOCALE = "en";
+
+/**
+ * English messages of the built-in validators (keyed by their default error codes)
+ */
+export const DEFAULT_MESSAGES: MessageCatalog = {
+  // Presence
+  required: "is required",
+  "not-null": "must not be null",
+  "not-undefined": "must be provided",
+  forbidden: "must not be provided",
+  "at-least-one-of": "at least one of {keys} is required",
+  "exactly-one-of": "exactly one of {keys} must be provided",
+
+  // Numbers
+  max: "must be at most {n}",
+  min: "must be at least {n}",
+  range: (extras) =>
+    extras?.lowerExclusive || extras?.upperExclusive
+      ? `must be ${extras.lowerExclusive ? "above" : "at least"} ${
+          extras.lowerBound
+        } and ${extras.upperExclusive ? "below" : "at most"} ${
+          extras.upperBound
+        }`
+      : `must be between ${extras?.lowerBound} and ${extras?.upperBound}`,
+  integer: "must be an integer",
+  positive: "must be positive",
+  "non-negative": "must not be negative",
+  "multiple-of": "must be a multiple of {n}",
+  precision: "must have at most {maxDecimals} decimal places",
+  finite: "must be a finite number",
+
+  // Strings & Lists
+  "max-size": "length must be at most {n}",
+  "min-size": "length must be at least {n}",
+  "range-size": "length must be between {lowerBound} and {upperBound}",
+  "non-empty": "must not be empty",
+  unique: "must not contain duplicates",
+  "includes-all": "must include all of {values}",
+  "includes-none": "must not include any of {values}",
+  "subset-of": "must only include elements of {allowed}",
+  sorted: (extras) =>
+    `must be sorted in ${
+      extras?.direction === "desc" ? "descending" : "ascending"
+    } order`,
+
+  // Strings
+  pattern: "must match the pattern {regexp}",
+  email: "must be a valid email address",
+  url: "must be a valid URL (allowed protocols: {protocols})",
+  uuid: (extras) =>
+    extras?.version
+      ? `must be a valid UUID (version ${extras.version})`
+      : "must be a valid UUID",
+  slug: "must contain only lowercase letters and digits separated by hyphens",
+  alphanumeric: "must contain only letters and digits",
+  "hex-color": "must be a valid hex color",
+  "ip-address": (extras) =>
+    extras?.version
+      ? `must be a valid IPv${extras.version} address`
+      : "must be a valid IP address",
+  "phone-e164": "must be a valid phone number in E.164 format",
+  "starts-with": "must start with {prefix}",
+  "ends-with": "must end with {suffix}",
+  contains: "must contain {substring}",
+  "one-of": "must be one of {values}",
+
+  // Dates
+  "iso-date": "must be a valid ISO 8601 date",
+  before: "must be before {date}",
+  after: "must be after {date}",
+  "date-range": "must be between {start} and {end}",
+  "not-in-past": "must not be in the past",
+  weekday: "must fall on one of the days {days} (0 is Sunday)",
+  "max-span": "must be at most {maxSpanMs}ms after {start}",
+
+  // Timeouts
+  "validation-timeout": "took too long to validate",
+};
+
+export interface MessagesConfig {
+  /**
+   * Message catalogs keyed by locale. The catalog of {@link DEFAULT_LOCALE} is merged with {@link DEFAULT_MESSAGES},
+   * so only messages of custom error codes (or overrides) need to be provided
+   */
+  catalogs?: Record<string, MessageCatalog>;
+
+  /**
+   * Used when the requested locale has no message for an error code. Defaults to {@link DEFAULT_LOCALE}
+   */
+  defaultLocale?: string;
+}
+
+/**
+ * @returns {@link template} where every `{key}` is replaced by the corresponding value of {@link extras}.
+ * Placeholders with no corresponding value are kept as is
+ */
+export function interpolateMessage(
+  template: string,
+  extras: ValidationResultErrorExtras
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    extras && extras[key] !== undefined ? String(extras[key]) : placeholder
+  );
+}
+
+/**
+ * @returns message of {@link error} in {@link locale}, falling back to the language of the locale (e.g. `en` for `en-US`)
+ * and then to the default locale. Undefined if there is no message for the error code
+ */
+export function formatErrorMessage(
+  [code, extras]: BaseValidationResultError,
+  locale: string | null | undefined,
+  { catalogs = {}, defaultLocale = DEFAULT_LOCALE }: MessagesConfig = {}
+): string | undefined {
+  const locales = [defaultLocale];
+  if (locale) {
+    locales.unshift(locale, locale.split("-")[0]);
+  }
+
+  for (const candidateLocale of locales) {
+    const template =
+      catalogs[candidateLocale]?.[code] ??
+      (candidateLocale === DEFAULT_LOCALE ? DEFAULT_MESSAGES[code] : undefined);
+
+    if (template !== undefined) {
+      return typeof template === "function"
+        ? template(extras)
+        : interpolateMessage(template, extras);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * @returns a copy of {@link errorsTree} where the message of each validation error (if any) is attached
+ * as its third element `[code, extras, message]`
+ */
+export function localizeErrorsTree(
+  errorsTree: ErrorsTree,
+  locale: string | null | undefined,
+  config?: MessagesConfig
+): ErrorsTree {
+  const localizedTree: ErrorsTree = {};
+
+  for (const key of Object.keys(errorsTree)) {
+    localizedTree[key] = localizeErrors(errorsTree[key], locale, config);
+  }
+
+  return localizedTree;
+}
+
+function localizeErrors(
+  errors: ValidationResultError | ErrorsTree,
+  locale: string | null | undefined,
+  config?: MessagesConfig
+): ValidationResultError | ErrorsTree {
+  if (getType(errors) === "object") {
+    return localizeErrorsTree(errors as ErrorsTree, locale, config);
+  }
+
+  if (typeof (errors as ValidationResultError)[0] === "string") {
+    const [code, extras] = errors as BaseValidationResultError;
+    const message = formatErrorMessage([code, extras], locale, config);
+
+    return message === undefined ? [code, extras] : [code, extras, message];
+  }
+
+  return (errors as ValidationResultError[]).map(
+    (error) => localizeErrors(error, locale, config) as ValidationResultError
+  );
+}
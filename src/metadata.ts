@@ -0,0 +1,242 @@
+import { writeFileSync } from "fs";
+import {
+  GraphQLField,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLSchema,
+  isInterfaceType,
+  isObjectType,
+} from "graphql";
+import { getType } from "jest-get-type";
+
+import { ScalarRules, Validator, ValidatorMetadata } from ".";
+import { getArgsTypeTree, getScalarRulesTree } from "./argsTypeTree";
+import { MaybeNull, TraversableObject } from "./types";
+import {
+  combineNodes,
+  getEachNodeContent,
+  getSelfValue,
+  isEachNode,
+  mergeNodes,
+} from "./utils";
+import { getValidatorMetadata } from "./validators";
+
+/**
+ * Metadata of the validators of a field args. The key is the argument path where list elements are denoted by `*`
+ * e.g. `userCreateInput.profiles.*.bio`.
+ * Recursive input types are expanded once: where one repeats, a {@link ValidationMetadataRef} is found instead
+ */
+export type ArgsValidationMetadata = Record<
+  string,
+  ValidatorMetadata[] | ValidationMetadataRef
+>;
+
+/**
+ * The metadata of the paths under {@link ref} applies to the paths under the key of this reference as well
+ * e.g. `{ "filter.not": { ref: "filter" } }` means that the metadata of `filter.name` applies to `filter.not.name`
+ */
+export interface ValidationMetadataRef {
+  ref: string;
+}
+
+/**
+ * The key is the field coordinate e.g. `Mutation.createUser`
+ */
+export type ValidationMetadataManifest = Record<string, ArgsValidationMetadata>;
+
+/**
+ * Key of the validation metadata in field extensions
+ */
+export const VALIDATION_METADATA_EXTENSION = "validationMetadata";
+
+/**
+ * Collects the metadata of the validators in {@link validatorTree}.
+ * Validators that are not created by `defineValidator` and object validators are not included
+ */
+export function collectValidationMetadata(
+  validatorTree: TraversableObject
+): ArgsValidationMetadata {
+  const metadata: ArgsValidationMetadata = {};
+  collectValidationMetadataHelper([], validatorTree, metadata, new Map());
+  return metadata;
+}
+
+/**
+ * @param ancestors Paths of the nodes being traversed. Trees of recursive input types are cyclic,
+ * so reaching one of them again means the input type repeats
+ */
+function collectValidationMetadataHelper(
+  path: string[],
+  node: unknown,
+  metadata: ArgsValidationMetadata,
+  ancestors: Map<unknown, string>
+) {
+  if (isEachNode(node) || getType(node) === "object") {
+    const ancestorPath = ancestors.get(node);
+
+    if (ancestorPath !== undefined) {
+      metadata[path.join(".")] = { ref: ancestorPath };
+      return;
+    }
+
+    ancestors.set(node, path.join("."));
+
+    if (isEachNode(node)) {
+      // Validators of the list itself
+      collectValidationMetadataHelper(
+        path,
+        getSelfValue(node),
+        metadata,
+        ancestors
+      );
+      collectValidationMetadataHelper(
+        [...path, "*"],
+        getEachNodeContent(node),
+        metadata,
+        ancestors
+      );
+    } else {
+      for (const key of Object.keys(node as TraversableObject)) {
+        collectValidationMetadataHelper(
+          [...path, key],
+          (node as TraversableObject)[key],
+          metadata,
+          ancestors
+        );
+      }
+    }
+
+    ancestors.delete(node);
+  } else if (Array.isArray(node)) {
+    for (const validator of node) {
+      collectValidationMetadataHelper(path, validator, metadata, ancestors);
+    }
+  } else if (typeof node === "function" && path.length !== 0) {
+    const validatorMetadata = getValidatorMetadata(node as Validator<never>);
+
+    if (validatorMetadata) {
+      const key = path.join(".");
+      const existingMetadata = metadata[key];
+      metadata[key] = [
+        ...(Array.isArray(existingMetadata) ? existingMetadata : []),
+        validatorMetadata,
+      ];
+    }
+  }
+}
+
+/**
+ * @returns validator tree of the field args including the rules declared on input types, constraints and {@link scalarRules}.
+ * Validator trees returned from `validate` resolvers are not known ahead of time, so only static trees are included.
+ * Null is returned if there are no known validators
+ */
+export function getStaticValidatorTree(
+  field: GraphQLField<unknown, unknown>,
+  scalarRules?: Record<string, ScalarRules>
+): MaybeNull<TraversableObject> {
+  const argsConfig: GraphQLFieldConfigArgumentMap = {};
+  for (const arg of field.args) {
+    argsConfig[arg.name] = arg;
+  }
+
+  const fieldConfig = (field.extensions as TraversableObject | undefined)?.nexus
+    ?.config;
+  const validate = fieldConfig?.validate;
+
+  return combineNodes(
+    scalarRules && fieldConfig?.skipScalarRules !== true
+      ? getScalarRulesTree(argsConfig, "validate", scalarRules)
+      : null,
+    mergeNodes(
+      getArgsTypeTree(argsConfig, "validate"),
+      typeof validate === "function" ? undefined : validate
+    )
+  ) as MaybeNull<TraversableObject>;
+}
+
+/**
+ * @returns metadata of the validators of the field args (See {@link getStaticValidatorTree}).
+ * Null is returned if there are no known validators
+ */
+export function getFieldValidationMetadata(
+  field: GraphQLField<unknown, unknown>,
+  scalarRules?: Record<string, ScalarRules>
+): MaybeNull<ArgsValidationMetadata> {
+  const validatorTree = getStaticValidatorTree(field, scalarRules);
+
+  if (!validatorTree) return null;
+
+  const metadata = collectValidationMetadata(validatorTree);
+
+  return Object.keys(metadata).length === 0 ? null : metadata;
+}
+
+/**
+ * @returns metadata of the validators of the args of all fields in {@link schema}
+ */
+export function getValidationMetadata(
+  schema: GraphQLSchema,
+  scalarRules?: Record<string, ScalarRules>
+): ValidationMetadataManifest {
+  const manifest: ValidationMetadataManifest = {};
+
+  forEachField(schema, (typeName, field) => {
+    const metadata = getFieldValidationMetadata(field, scalarRules);
+
+    if (metadata) {
+      manifest[`${typeName}.${field.name}`] = metadata;
+    }
+  });
+
+  return manifest;
+}
+
+/**
+ * Adds the validation metadata of each field to its extensions under {@link VALIDATION_METADATA_EXTENSION}
+ */
+export function addValidationMetadataExtensions(
+  schema: GraphQLSchema,
+  manifest: ValidationMetadataManifest
+) {
+  forEachField(schema, (typeName, field) => {
+    const metadata = manifest[`${typeName}.${field.name}`];
+
+    if (metadata) {
+      field.extensions = {
+        ...field.extensions,
+        [VALIDATION_METADATA_EXTENSION]: metadata,
+      };
+    }
+  });
+}
+
+/**
+ * Writes {@link manifest} as JSON to {@link outputPath}
+ */
+export function writeValidationMetadata(
+  outputPath: string,
+  manifest: ValidationMetadataManifest
+) {
+  writeFileSync(outputPath, JSON.stringify(manifest, null, 2));
+}
+
+function forEachField(
+  schema: GraphQLSchema,
+  callback: (typeName: string, field: GraphQLField<unknown, unknown>) => void
+) {
+  const typeMap = schema.getTypeMap();
+
+  for (const typeName of Object.keys(typeMap)) {
+    const type = typeMap[typeName];
+
+    if (
+      (isObjectType(type) || isInterfaceType(type)) &&
+      !typeName.startsWith("__")
+    ) {
+      const fields = type.getFields();
+
+      for (const fieldName of Object.keys(fields)) {
+        callback(typeName, fields[fieldName]);
+      }
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import {
+  GraphQLFieldConfigArgumentMap,
+  GraphQLInputObjectType,
+  GraphQLInputType,
+  isInputObjectType,
+  isListType,
+  isNonNullType,
+} from "graphql";
+
+import { ObjectValidator } from ".";
+import { TraversableObject } from "./types";
+import { exactlyOneOf } from "./validators";
+
+/**
+ * Args value of a "oneOf" input object, narrowed to exactly one non-null field
+ *
+ * @example
+ * ```
+ * resolve(_, args) {
+ *   const where = args.where as OneOfInput<typeof args.where>;
+ *   if (where.id !== undefined) { ... }
+ * }
+ * ```
+ */
+export type OneOfInput<T> = NonNullable<T> extends infer Input
+  ? {
+      [key in keyof Input]: { [field in key]-?: NonNullable<Input[field]> } & {
+        [field in Exclude<keyof Input, key>]?: never;
+      };
+    }[keyof Input]
+  : never;
+
+/**
+ * @returns true if exactly one field of {@link type} has to be set, either through the `oneOf` config
+ * or through the `@oneOf` directive (if the schema is built from SDL)
+ */
+export function isOneOfInputType(type: GraphQLInputObjectType): boolean {
+  return (
+    (type.extensions as TraversableObject | undefined)?.nexus?.config?.oneOf ===
+      true ||
+    !!type.astNode?.directives?.some(
+      (directive) => directive.name.value === "oneOf"
+    )
+  );
+}
+
+/**
+ * @returns object validator that fails unless exactly one field of {@link type} is neither null nor undefined.
+ * Unlike {@link exactlyOneOf} itself, it doesn't run when the input object is missing
+ */
+export function oneOfInputValidator(
+  type: GraphQLInputObjectType
+): ObjectValidator<TraversableObject> {
+  const validator = exactlyOneOf(Object.keys(type.getFields()));
+  return (obj) => validator(obj);
+}
+
+/**
+ * @returns true if any of the args is (or contains) a "oneOf" input object
+ */
+export function hasOneOfInputs(
+  argsConfig: GraphQLFieldConfigArgumentMap | undefined
+): boolean {
+  if (!argsConfig) return false;
+
+  const visitedTypes = new Set<string>();
+
+  return Object.keys(argsConfig).some((argName) =>
+    hasOneOfInputsHelper(argsConfig[argName].type, visitedTypes)
+  );
+}
+
+function hasOneOfInputsHelper(
+  type: GraphQLInputType,
+  visitedTypes: Set<string>
+): boolean {
+  if (isNonNullType(type) || isListType(type)) {
+    return hasOneOfInputsHelper(type.ofType, visitedTypes);
+  }
+
+  if (!isInputObjectType(type) || visitedTypes.has(type.name)) {
+    return false;
+  }
+
+  visitedTypes.add(type.name);
+
+  if (isOneOfInputType(type)) return true;
+
+  const fields = type.getFields();
+
+  return Object.keys(fields).some((fieldName) =>
+    hasOneOfInputsHelper(fields[fieldName].type, visitedTypes)
+  );
+}
+
+/**
+ * @returns copy of {@link args} where null fields of "oneOf" input objects are removed
+ * such that they match {@link OneOfInput}. {@link args} is returned as is if there is nothing to remove
+ */
+export function narrowOneOfInputs<T extends TraversableObject>(
+  args: T,
+  argsConfig: GraphQLFieldConfigArgumentMap
+): T {
+  let narrowedArgs = args;
+
+  for (const argName of Object.keys(argsConfig)) {
+    const value = args[argName];
+    const narrowedValue = narrowOneOfInput(value, argsConfig[argName].type);
+
+    if (narrowedValue !== value) {
+      if (narrowedArgs === args) {
+        narrowedArgs = { ...args };
+      }
+      (narrowedArgs as TraversableObject)[argName] = narrowedValue;
+    }
+  }
+
+  return narrowedArgs;
+}
+
+function narrowOneOfInput(value: unknown, type: GraphQLInputType): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (isNonNullType(type)) {
+    return narrowOneOfInput(value, type.ofType);
+  }
+
+  if (isListType(type)) {
+    if (!Array.isArray(value)) return value;
+
+    const narrowedList = value.map((element) =>
+      narrowOneOfInput(element, type.ofType)
+    );
+
+    return narrowedList.some((element, i) => element !== value[i])
+      ? narrowedList
+      : value;
+  }
+
+  if (!isInputObjectType(type) || typeof value !== "object") {
+    return value;
+  }
+
+  const obj = value as TraversableObject;
+  const fields = type.getFields();
+  const oneOf = isOneOfInputType(type);
+  let narrowedObj = obj;
+
+  for (const fieldName of Object.keys(obj)) {
+    const fieldValue = obj[fieldName];
+
+    if (oneOf && fieldValue === null) {
+      if (narrowedObj === obj) {
+        narrowedObj = { ...obj };
+      }
+      delete narrowedObj[fieldName];
+    } else if (fields[fieldName]) {
+      const narrowedValue = narrowOneOfInput(
+        fieldValue,
+        fields[fieldName].type
+      );
+
+      if (narrowedValue !== fieldValue) {
+        if (narrowedObj === obj) {
+          narrowedObj = { ...obj };
+        }
+        narrowedObj[fieldName] = narrowedValue;
+      }
+    }
+  }
+
+  return narrowedObj;
+}
@@ -0,0 +1,131 @@
+import { ArgsValue } from "nexus/dist/core";
+
+import { BaseTransformerTree, BaseValidatorTree } from ".";
+import { TraversableObject } from "./types";
+import { combineNodes, getSelfValue, mergeNodes, setSelfValue } from "./utils";
+
+/**
+ * Validator tree of {@link Args} which isn't tied to a specific field, such that it can be reused wherever {@link Args} are
+ *
+ * @example
+ * ```
+ * const addressRules: ValidatorRuleSet<Address> = {
+ *   street: maxSize(100),
+ *   zip: pattern(/^\d{5}$/),
+ * };
+ * ```
+ */
+export type ValidatorRuleSet<Args extends TraversableObject> =
+  BaseValidatorTree<ArgsValue<string, string>, Args>;
+
+/**
+ * Transformer tree of {@link Args} which isn't tied to a specific field, such that it can be reused wherever {@link Args} are
+ */
+export type TransformerRuleSet<Args extends TraversableObject> =
+  BaseTransformerTree<Args>;
+
+/**
+ * Rules of a tree combined with {@link Base}: the ones of the keys of {@link Base} have to be of the same type,
+ * while any other key is added as is. Object validators (See {@link validateObject}) are not compared,
+ * since they depend on the other keys
+ */
+type RulesWithBase<Base, Rules> = {
+  [key in keyof Rules]: key extends string & keyof Base ? Base[key] : unknown;
+};
+
+/**
+ * Deeply merges rule trees (validator or transformer trees), unlike spreading which replaces nested branches.
+ * Rules of {@link override} replace the ones of {@link base} at the same path. Neither tree is mutated.
+ * Rules of {@link override} at the keys of {@link base} are type checked against the ones of {@link base}
+ *
+ * @example
+ * ```
+ * mergeRules(addressRules, { zip: pattern(/^\d{5}(-\d{4})?$/) })
+ * ```
+ */
+export function mergeRules<
+  Base extends object,
+  Override extends RulesWithBase<Base, Override>
+>(base: Base, override: Override): Base & Override {
+  return mergeNodes(base, override) as Base & Override;
+}
+
+/**
+ * Deeply combines rule trees (validator or transformer trees) such that the rules of both apply at the same path,
+ * the ones of {@link base} first. Neither tree is mutated.
+ * Rules of {@link extension} at the keys of {@link base} are type checked against the ones of {@link base}
+ *
+ * @example
+ * ```
+ * extendRules(passwordRules, { password: notValidator(oneOf(commonPasswords), ["common-password", null]) })
+ * ```
+ */
+export function extendRules<
+  Base extends object,
+  Extension extends RulesWithBase<Base, Extension>
+>(base: Base, extension: Extension): Base & Extension {
+  return combineNodes(base, extension) as Base & Extension;
+}
+
+/**
+ * @returns rule tree with only the rules of the given top-level {@link keys}.
+ * The object validator of {@link tree} (See {@link validateObject}) is kept
+ */
+export function pickRules<Tree extends object, Key extends keyof Tree>(
+  tree: Tree,
+  keys: readonly Key[]
+): Pick<Tree, Key> {
+  return filterRules(tree, (key) => keys.includes(key as Key)) as Pick<
+    Tree,
+    Key
+  >;
+}
+
+/**
+ * @returns rule tree without the rules of the given top-level {@link keys}.
+ * The object validator of {@link tree} (See {@link validateObject}) is kept
+ */
+export function omitRules<Tree extends object, Key extends keyof Tree>(
+  tree: Tree,
+  keys: readonly Key[]
+): Omit<Tree, Key> {
+  return filterRules(tree, (key) => !keys.includes(key as Key)) as Omit<
+    Tree,
+    Key
+  >;
+}
+
+/**
+ * Nests a rule tree under {@link key}, e.g. to apply the rules of an input type to an argument of that type
+ *
+ * @example
+ * ```
+ * validate: mergeRules(prefixRules("billingAddress", addressRules), prefixRules("shippingAddress", addressRules))
+ * ```
+ */
+export function prefixRules<Key extends string, Tree>(
+  key: Key,
+  tree: Tree
+): { [key in Key]: Tree } {
+  return { [key]: tree } as { [key in Key]: Tree };
+}
+
+function filterRules(
+  tree: object,
+  predicate: (key: string) => boolean
+): TraversableObject {
+  const filteredTree: TraversableObject = {};
+
+  for (const key of Object.keys(tree)) {
+    if (predicate(key)) {
+      filteredTree[key] = (tree as TraversableObject)[key];
+    }
+  }
+
+  const selfValue = getSelfValue(tree);
+  if (selfValue !== undefined) {
+    setSelfValue(filteredTree, selfValue);
+  }
+
+  return filteredTree;
+}
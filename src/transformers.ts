@@ -1,7 +1,12 @@
-import { MaybeNullable } from "./types";
+import { MaybePromise } from "nexus/dist/core";
+
+import { DateUnit, isValidDate, toDate, truncateDateTo } from "./dates";
+import { MaybeNull, MaybeNullable, NullabilityStrategy } from "./types";
 import { reduceAsync } from "./utils";
 import { Transformer } from ".";
 
+export { DateUnit } from "./dates";
+
 /**
  * @returns a new transformer where child transformers are piped one after the other in order such that
  * the output of each previous transformer is the input of the next transformer.
@@ -19,6 +24,53 @@ export function combineTransformers<T>(
   };
 }
 
+/**
+ * Utility to easily create transformers that handle null and undefined args consistently
+ *
+ * @param transform receives the arg depending on nullabilityStrategy
+ * @param nullabilityStrategy Defaults to normal (null and undefined are returned as is without calling transform)
+ */
+export function defineTransformer<T, S extends NullabilityStrategy = "normal">(
+  transform: (
+    arg: S extends "normal"
+      ? T
+      : S extends "strict"
+      ? MaybeNullable<T>
+      : MaybeNull<T>
+  ) => MaybePromise<S extends "normal" ? T : MaybeNullable<T>>,
+  nullabilityStrategy?: S
+): Transformer<MaybeNullable<T>> {
+  return (arg) => {
+    if (!nullabilityStrategy || nullabilityStrategy === "normal") {
+      if (arg === null || arg === undefined) {
+        return arg;
+      }
+    } else if (nullabilityStrategy === "strict-with-null") {
+      if (arg === undefined) {
+        arg = null;
+      }
+    }
+
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore
+    return transform(arg);
+  };
+}
+
+/**
+ * @returns a new transformer that returns null and undefined args as is, and passes any other arg to {@link transformer}
+ *
+ * @example
+ * ```
+ * transform: { bio: nullable(trim) }
+ * ```
+ */
+export function nullable<T>(
+  transformer: Transformer<T>
+): Transformer<MaybeNullable<T>> {
+  return defineTransformer<T>(transformer);
+}
+
 //===================================
 // General
 //===================================
@@ -45,9 +97,7 @@ export const trim: Transformer<string> = (arg) => {
 /**
  * Same as {@link trim} but handles null and undefined values
  */
-export const trimNullable: Transformer<MaybeNullable<string>> = (arg) => {
-  return arg ? arg.trim() : arg;
-};
+export const trimNullable = nullable(trim);
 
 /**
  * string transformer that converts the string arg to lowercase
@@ -59,9 +109,7 @@ export const lowercase: Transformer<string> = (arg) => {
 /**
  * Same as {@link lowercase} but handles null and undefined values
  */
-export const lowercaseNullable: Transformer<MaybeNullable<string>> = (arg) => {
-  return arg ? arg.toLowerCase() : arg;
-};
+export const lowercaseNullable = nullable(lowercase);
 
 /**
  * string transformer that converts the string arg to uppercase
@@ -73,8 +121,169 @@ export const uppercase: Transformer<string> = (arg) => {
 /**
  * Same as {@link uppercase} but handles null and undefined values
  */
-export const uppercaseNullable: Transformer<MaybeNullable<string>> = (arg) => {
-  return arg ? arg.toUpperCase() : arg;
+export const uppercaseNullable = nullable(uppercase);
+
+/**
+ * @returns string transformer that normalizes the string arg to the unicode normalization {@link form}
+ */
+export const normalizeUnicode: (
+  form?: "NFC" | "NFD" | "NFKC" | "NFKD"
+) => Transformer<string> =
+  (form = "NFC") =>
+  (arg) => {
+    return arg.normalize(form);
+  };
+
+/**
+ * Same as {@link normalizeUnicode} but handles null and undefined values
+ */
+export const normalizeUnicodeNullable = (
+  form?: "NFC" | "NFD" | "NFKC" | "NFKD"
+) => nullable(normalizeUnicode(form));
+
+/**
+ * string transformer that replaces every sequence of whitespace characters in the string arg with a single space
+ * (Combine it with {@link trim} to remove leading and trailing whitespace)
+ */
+export const collapseWhitespace: Transformer<string> = (arg) => {
+  return arg.replace(/\s+/g, " ");
+};
+
+/**
+ * Same as {@link collapseWhitespace} but handles null and undefined values
+ */
+export const collapseWhitespaceNullable = nullable(collapseWhitespace);
+
+function stripDiacritics(str: string): string {
+  // Decomposes accented characters, then removes the combining marks
+  return str.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * string transformer that removes diacritics (accents) from the string arg e.g. `Crème Brûlée` -> `Creme Brulee`
+ */
+export const removeDiacritics: Transformer<string> = (arg) => {
+  return stripDiacritics(arg);
+};
+
+/**
+ * Same as {@link removeDiacritics} but handles null and undefined values
+ */
+export const removeDiacriticsNullable = nullable(removeDiacritics);
+
+/**
+ * string transformer that converts the string arg to a slug e.g. ` Crème Brûlée Recipe! ` -> `creme-brulee-recipe`
+ */
+export const slugify: Transformer<string> = (arg) => {
+  return stripDiacritics(arg)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+};
+
+/**
+ * Same as {@link slugify} but handles null and undefined values
+ */
+export const slugifyNullable = nullable(slugify);
+
+/**
+ * string transformer that removes HTML tags (and the content of `script` and `style` elements) from the string arg.
+ * Entities are kept as is
+ */
+export const stripHtml: Transformer<string> = (arg) => {
+  return arg
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<[^>]*>/g, "");
+};
+
+/**
+ * Same as {@link stripHtml} but handles null and undefined values
+ */
+export const stripHtmlNullable = nullable(stripHtml);
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * string transformer that escapes HTML special characters (`&`, `<`, `>`, `"` and `'`) in the string arg
+ */
+export const escapeHtml: Transformer<string> = (arg) => {
+  return arg.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+};
+
+/**
+ * Same as {@link escapeHtml} but handles null and undefined values
+ */
+export const escapeHtmlNullable = nullable(escapeHtml);
+
+/**
+ * @returns string transformer that truncates the string arg to {@link n} characters (including {@link ellipsis} if provided)
+ * e.g. `truncate(8, "...")`: `Hello world` -> `Hello...`
+ */
+export const truncate: (n: number, ellipsis?: string) => Transformer<string> =
+  (n, ellipsis = "") =>
+  (arg) => {
+    // Code points are counted, so that surrogate pairs (e.g. emojis) are not split
+    const chars = Array.from(arg);
+    if (chars.length <= n) return arg;
+
+    // The ellipsis itself is cut when it's longer than n
+    const ellipsisChars = Array.from(ellipsis).slice(0, n);
+
+    return (
+      chars.slice(0, n - ellipsisChars.length).join("") + ellipsisChars.join("")
+    );
+  };
+
+/**
+ * Same as {@link truncate} but handles null and undefined values
+ */
+export const truncateNullable = (n: number, ellipsis?: string) =>
+  nullable(truncate(n, ellipsis));
+
+/**
+ * @returns string transformer that replaces matches of {@link pattern} in the string arg with {@link replacement}.
+ * String patterns replace all occurrences, regexps follow `String.prototype.replace` (Use the `g` flag to replace all)
+ */
+export const replace: (
+  pattern: string | RegExp,
+  replacement: string
+) => Transformer<string> = (pattern, replacement) => (arg) => {
+  return typeof pattern === "string"
+    ? arg.split(pattern).join(replacement)
+    : arg.replace(pattern, replacement);
+};
+
+/**
+ * Same as {@link replace} but handles null and undefined values
+ */
+export const replaceNullable = (
+  pattern: string | RegExp,
+  replacement: string
+) => nullable(replace(pattern, replacement));
+
+/**
+ * string transformer that converts the first character of the string arg to uppercase
+ */
+export const capitalize: Transformer<string> = (arg) => {
+  return arg.charAt(0).toUpperCase() + arg.slice(1);
+};
+
+/**
+ * Same as {@link capitalize} but handles null and undefined values
+ */
+export const capitalizeNullable = nullable(capitalize);
+
+/**
+ * string transformer that converts the empty string arg to null (Combine it with {@link trim} to also convert whitespace-only strings)
+ */
+export const emptyToNull: Transformer<MaybeNullable<string>> = (arg) => {
+  return arg === "" ? null : arg;
 };
 
 //===================================
@@ -88,20 +297,204 @@ export const clamp: (
   lowerBound?: number,
   upperBound?: number
 ) => Transformer<number> = (lowerBound, upperBound) => (arg) => {
-  if (lowerBound && arg < lowerBound) return lowerBound;
-  if (upperBound && arg > upperBound) return upperBound;
+  if (lowerBound !== undefined && arg < lowerBound) return lowerBound;
+  if (upperBound !== undefined && arg > upperBound) return upperBound;
   return arg;
 };
 
 /**
  * Same as {@link clamp} but handles null and undefined values
  */
-export const clampNullable: (
-  lowerBound?: number,
-  upperBound?: number
-) => Transformer<MaybeNullable<number>> = (lowerBound, upperBound) => (arg) => {
-  if (!arg) return arg;
-  if (lowerBound && arg < lowerBound) return lowerBound;
-  if (upperBound && arg > upperBound) return upperBound;
-  return arg;
+export const clampNullable = (lowerBound?: number, upperBound?: number) =>
+  nullable(clamp(lowerBound, upperBound));
+
+/**
+ * number transformer that rounds the number arg to the nearest integer
+ */
+export const round: Transformer<number> = (arg) => {
+  return Math.round(arg);
+};
+
+/**
+ * Same as {@link round} but handles null and undefined values
+ */
+export const roundNullable = nullable(round);
+
+/**
+ * number transformer that rounds the number arg down
+ */
+export const floor: Transformer<number> = (arg) => {
+  return Math.floor(arg);
 };
+
+/**
+ * Same as {@link floor} but handles null and undefined values
+ */
+export const floorNullable = nullable(floor);
+
+/**
+ * number transformer that rounds the number arg up
+ */
+export const ceil: Transformer<number> = (arg) => {
+  return Math.ceil(arg);
+};
+
+/**
+ * Same as {@link ceil} but handles null and undefined values
+ */
+export const ceilNullable = nullable(ceil);
+
+/**
+ * number transformer that converts the number arg to its absolute value
+ */
+export const abs: Transformer<number> = (arg) => {
+  return Math.abs(arg);
+};
+
+/**
+ * Same as {@link abs} but handles null and undefined values
+ */
+export const absNullable = nullable(abs);
+
+/**
+ * @returns transformer that rounds the number arg to {@link digits} decimal places e.g. `toFixedPrecision(2)`: 1.005 -> 1.01
+ */
+export const toFixedPrecision: (digits: number) => Transformer<number> =
+  (digits) => (arg) => {
+    // Shifting by the exponent avoids binary representation errors of `toFixed` e.g. (1.005).toFixed(2) is "1.00"
+    const rounded = Number(
+      `${Math.round(Number(`${arg}e${digits}`))}e-${digits}`
+    );
+
+    // Args already in exponential notation (e.g. 1e-7) can't be shifted this way
+    return Number.isNaN(rounded) ? Number(arg.toFixed(digits)) : rounded;
+  };
+
+/**
+ * Same as {@link toFixedPrecision} but handles null and undefined values
+ */
+export const toFixedPrecisionNullable = (digits: number) =>
+  nullable(toFixedPrecision(digits));
+
+//===================================
+// Arrays
+//===================================
+
+/**
+ * @returns array transformer that removes duplicate elements (the first occurrence is kept).
+ * If {@link key} is provided, elements are compared by the returned value
+ */
+export const dedupe: <T>(key?: (element: T) => unknown) => Transformer<T[]> =
+  (key) => (arg) => {
+    const seenKeys = new Set<unknown>();
+
+    return arg.filter((element) => {
+      const elementKey = key ? key(element) : element;
+      if (seenKeys.has(elementKey)) return false;
+      seenKeys.add(elementKey);
+      return true;
+    });
+  };
+
+/**
+ * Same as {@link dedupe} but handles null and undefined values
+ */
+export const dedupeNullable = <T>(key?: (element: T) => unknown) =>
+  nullable(dedupe(key));
+
+/**
+ * array transformer that removes null and undefined elements
+ */
+export const compact = <T>(arg: T[]): T[] => {
+  return arg.filter((element) => element !== null && element !== undefined);
+};
+
+/**
+ * Same as {@link compact} but handles null and undefined values
+ */
+export const compactNullable = <T>(arg: MaybeNullable<T[]>) =>
+  nullable<T[]>(compact)(arg);
+
+/**
+ * @returns array transformer that sorts (a copy of) the array arg by the value returned from {@link key}
+ */
+export const sortBy: <T>(
+  key: (element: T) => number | string,
+  direction?: "asc" | "desc"
+) => Transformer<T[]> =
+  (key, direction = "asc") =>
+  (arg) => {
+    return [...arg].sort((a, b) => {
+      const [keyA, keyB] = [key(a), key(b)];
+      const order = keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+      return direction === "asc" ? order : -order;
+    });
+  };
+
+/**
+ * Same as {@link sortBy} but handles null and undefined values
+ */
+export const sortByNullable = <T>(
+  key: (element: T) => number | string,
+  direction?: "asc" | "desc"
+) => nullable(sortBy(key, direction));
+
+/**
+ * @returns array transformer that keeps the first {@link n} elements of the array arg
+ */
+export const limit: (n: number) => <T>(arg: T[]) => T[] = (n) => (arg) => {
+  return arg.slice(0, n);
+};
+
+/**
+ * Same as {@link limit} but handles null and undefined values
+ */
+export const limitNullable =
+  (n: number) =>
+  <T>(arg: MaybeNullable<T[]>) =>
+    nullable<T[]>(limit(n))(arg);
+
+//===================================
+// Dates
+//===================================
+
+/**
+ * Transformer of Date and ISO string args. The output is of the same kind as the input
+ * (ISO strings are normalized to UTC e.g. `2024-05-01T00:00:00.000Z`). Null, undefined and invalid dates are returned as is
+ */
+export type DateTransformer = <T extends MaybeNullable<Date | string>>(
+  arg: T
+) => T;
+
+function defineDateTransformer(transform: (date: Date) => Date) {
+  return (<T extends MaybeNullable<Date | string>>(arg: T): T => {
+    if (arg === null || arg === undefined) return arg;
+
+    const date = toDate(arg as Date | string);
+    if (!isValidDate(date)) return arg;
+
+    const transformedDate = transform(date);
+
+    return (
+      arg instanceof Date ? transformedDate : transformedDate.toISOString()
+    ) as T;
+  }) as DateTransformer;
+}
+
+/**
+ * Date transformer that normalizes ISO strings with a timezone offset to UTC
+ * e.g. `2024-05-01T02:00:00+02:00` -> `2024-05-01T00:00:00.000Z`
+ */
+export const toUTC: DateTransformer = defineDateTransformer((date) => date);
+
+/**
+ * @returns date transformer that resets components smaller than {@link unit} (in UTC)
+ * e.g. `truncateDate("hour")`: `2024-05-01T10:35:20Z` -> `2024-05-01T10:00:00.000Z`
+ */
+export const truncateDate = (unit: DateUnit): DateTransformer =>
+  defineDateTransformer((date) => truncateDateTo(date, unit));
+
+/**
+ * Date transformer that sets the time to the start of the day (UTC)
+ */
+export const startOfDay: DateTransformer = truncateDate("day");
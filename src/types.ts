@@ -1,10 +1,19 @@
 import { GraphQLResolveInfo } from "graphql";
-import { ArgsValue, GetGen, SourceValue } from "nexus/dist/core";
+import { ArgsValue, GetGen, GetGen2, SourceValue } from "nexus/dist/core";
 
 export type MaybeNullable<T> = T | null | undefined;
 
 export type MaybeNull<T> = T | null;
 
+/**
+ * How validators/transformers created by `defineValidator`/`defineTransformer` handle nullable args
+ *
+ * normal: (arg: T) -> validation passes / arg is returned as is in case of nullable (null/undefined)
+ * strict: (arg: T | null | undefined) -> full control
+ * strict-with-null: (arg: T | null) -> undefined is converted to null
+ */
+export type NullabilityStrategy = "normal" | "strict" | "strict-with-null";
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type TraversableObject = Record<string, any>;
 
@@ -18,3 +27,19 @@ export type Resolver<
   context: GetGen<"context">,
   info: GraphQLResolveInfo
 ) => ReturnType;
+
+export type InputTypeValue<TypeName extends string> = GetGen2<
+  "inputTypes",
+  TypeName
+>;
+
+export type InputFieldValue<
+  TypeName extends string,
+  FieldName extends string
+> = InputTypeValue<TypeName> extends infer Input
+  ? FieldName extends keyof Input
+    ? Input[FieldName]
+    : // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      any
+  : // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    any;
@@ -3,6 +3,145 @@ import { getType } from "jest-get-type";
 
 import { MaybeNull, TraversableObject } from "./types";
 
+const EACH_KEY = Symbol("each");
+
+/**
+ * Marks a node in a validator/transformer tree as applying to every element of the related list
+ */
+export type EachNode<T> = { readonly [EACH_KEY]: T };
+
+export function createEachNode<T>(node: T): EachNode<T> {
+  return { [EACH_KEY]: node };
+}
+
+export function isEachNode(value: unknown): value is EachNode<unknown> {
+  return typeof value === "object" && value !== null && EACH_KEY in value;
+}
+
+export function getEachNodeContent<T>(eachNode: EachNode<T>): T {
+  return eachNode[EACH_KEY];
+}
+
+const SELF_KEY = Symbol("self");
+
+/**
+ * Holds a value of a nested object or an {@link EachNode} (of the object traversed by {@link mapObject}) which is mapped
+ * with the related object (or list) itself rather than with one of its keys
+ */
+export type SelfNode<T> = { readonly [SELF_KEY]?: T };
+
+export function withSelfValue<O extends TraversableObject, T>(
+  obj: O,
+  selfValue: T
+): O & SelfNode<T> {
+  return { ...obj, [SELF_KEY]: selfValue };
+}
+
+export function getSelfValue(obj: TraversableObject): unknown {
+  return obj[SELF_KEY as unknown as string];
+}
+
+/**
+ * Same as {@link withSelfValue} but {@link obj} itself is mutated (e.g. when other nodes already reference it)
+ */
+export function setSelfValue(obj: TraversableObject, selfValue: unknown) {
+  obj[SELF_KEY as unknown as string] = selfValue;
+}
+
+/**
+ * Expands an {@link EachNode} into an object with a key for each index of {@link relatedValue}
+ * such that it can be traversed the same way as any nested object.
+ * If {@link relatedValue} is not an array, an empty object is returned
+ */
+export function expandEachNode(
+  eachNode: EachNode<unknown>,
+  relatedValue: unknown
+): TraversableObject {
+  const expanded: TraversableObject = {};
+
+  if (Array.isArray(relatedValue)) {
+    for (let i = 0; i < relatedValue.length; i++) {
+      expanded[i] = eachNode[EACH_KEY];
+    }
+  }
+
+  // A self value of an each node is mapped with the list itself
+  const selfValue = getSelfValue(eachNode);
+
+  return selfValue === undefined
+    ? expanded
+    : withSelfValue(expanded, selfValue);
+}
+
+const CONDITION_KEY = Symbol("condition");
+
+/**
+ * Marks a node in a validator tree as chosen according to the args of the resolver
+ */
+export interface ConditionalNode<Args, N> {
+  readonly [CONDITION_KEY]: {
+    predicate: (args: Args) => boolean;
+    then: N;
+    otherwise?: N;
+  };
+}
+
+export function createConditionalNode<Args, N>(
+  predicate: (args: Args) => boolean,
+  then: N,
+  otherwise?: N
+): ConditionalNode<Args, N> {
+  return { [CONDITION_KEY]: { predicate, then, otherwise } };
+}
+
+export function isConditionalNode(
+  value: unknown
+): value is ConditionalNode<unknown, unknown> {
+  return typeof value === "object" && value !== null && CONDITION_KEY in value;
+}
+
+/**
+ * @returns the node chosen by the predicate of {@link node} for {@link args} (undefined if none is chosen),
+ * or {@link node} itself if it's not a {@link ConditionalNode}. Nested conditional nodes are left for the traversal
+ * (See `mapNode` of {@link mapObject}), so that only the nodes of present args are resolved
+ */
+export function resolveConditionalNode(
+  node: unknown,
+  args: TraversableObject
+): unknown {
+  while (isConditionalNode(node)) {
+    const { predicate, then, otherwise } = node[CONDITION_KEY];
+    node = predicate(args) ? then : otherwise;
+  }
+
+  return node;
+}
+
+const EXTEND_KEY = Symbol("extend");
+
+/**
+ * Marks a node in a validator/transformer tree as combined with the node it's merged into (See {@link mergeNodes})
+ * rather than replacing it
+ */
+export interface ExtendNode<T> {
+  readonly [EXTEND_KEY]: T;
+}
+
+export function createExtendNode<T>(node: T): ExtendNode<T> {
+  return { [EXTEND_KEY]: node };
+}
+
+export function isExtendNode(value: unknown): value is ExtendNode<unknown> {
+  return typeof value === "object" && value !== null && EXTEND_KEY in value;
+}
+
+/**
+ * @returns content of {@link node} if it's an {@link ExtendNode} (there's nothing to extend), otherwise {@link node} itself
+ */
+export function unwrapExtendNode(node: unknown): unknown {
+  return isExtendNode(node) ? node[EXTEND_KEY] : node;
+}
+
 export function assignObjectAt(
   obj: TraversableObject,
   accessKey: readonly string[],
@@ -25,6 +164,247 @@ export function assignObjectAt(
   return obj;
 }
 
+/**
+ * Similar to {@link assignObjectAt} but the value is merged with the existing value (if any) using {@link merge}.
+ * If {@link accessKey} is empty, the value is merged with {@link obj} itself
+ */
+export function mergeObjectAt(
+  obj: MaybeNull<TraversableObject>,
+  accessKey: readonly string[],
+  value: unknown,
+  merge: (existingValue: unknown, value: unknown) => unknown
+): TraversableObject {
+  if (accessKey.length === 0) {
+    return merge(obj, value) as TraversableObject;
+  }
+
+  const resultObj = obj || {};
+  const parentAccessKey = accessKey.slice(0, -1);
+  const lastKeyPart = accessKey[accessKey.length - 1];
+
+  let parentObj = resultObj;
+  for (const keyPart of parentAccessKey) {
+    if (!parentObj[keyPart]) {
+      parentObj[keyPart] = {};
+    }
+    parentObj = parentObj[keyPart];
+  }
+
+  parentObj[lastKeyPart] = merge(parentObj[lastKeyPart], value);
+
+  return resultObj;
+}
+
+/**
+ * Deeply clones plain objects and arrays. Any other value (e.g. Date) is kept as is
+ */
+export function clonePlainObject<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(clonePlainObject) as unknown as T;
+  }
+
+  if (
+    getType(value) === "object" &&
+    [Object.prototype, null].includes(Object.getPrototypeOf(value))
+  ) {
+    const clonedObj: TraversableObject = {};
+
+    for (const key of Object.keys(value)) {
+      clonedObj[key] = clonePlainObject((value as TraversableObject)[key]);
+    }
+
+    return clonedObj as T;
+  }
+
+  return value;
+}
+
+/**
+ * Deeply merges {@link overrideNode} into {@link baseNode} (neither of them is mutated).
+ * Nested objects and {@link EachNode}s are merged recursively, any other value of {@link overrideNode} replaces the one in {@link baseNode}
+ * except for {@link ExtendNode}s which are combined with it (See {@link combineNodes})
+ */
+export function mergeNodes(baseNode: unknown, overrideNode: unknown): unknown {
+  if (overrideNode === undefined || overrideNode === null) {
+    return baseNode;
+  }
+
+  if (isExtendNode(overrideNode)) {
+    return combineNodes(
+      baseNode,
+      mergeNodes(undefined, overrideNode[EXTEND_KEY])
+    );
+  }
+
+  if (isConditionalNode(overrideNode)) {
+    // The chosen node isn't known until the args are, so it replaces the base node unless it extends it
+    const { predicate, then, otherwise } = overrideNode[CONDITION_KEY];
+    const merge = (chosenNode: unknown) =>
+      mergeNodes(isExtendNode(chosenNode) ? baseNode : undefined, chosenNode);
+
+    return createConditionalNode(predicate, merge(then), merge(otherwise));
+  }
+
+  if (isConditionalNode(baseNode)) {
+    // Extend nodes of overrideNode are resolved nonetheless
+    return mergeNodes(undefined, overrideNode);
+  }
+
+  if (isEachNode(overrideNode)) {
+    // Merged into an empty each node if baseNode isn't one, such that the extend nodes of overrideNode are resolved
+    const baseEachNode = isEachNode(baseNode) ? baseNode : undefined;
+    const mergedEachNode = createEachNode(
+      mergeNodes(baseEachNode?.[EACH_KEY], overrideNode[EACH_KEY])
+    );
+    const selfValue = mergeNodes(
+      baseEachNode && getSelfValue(baseEachNode),
+      getSelfValue(overrideNode)
+    );
+
+    return selfValue === undefined
+      ? mergedEachNode
+      : withSelfValue(mergedEachNode, selfValue);
+  }
+
+  if (getType(overrideNode) === "object") {
+    // Merged into an empty object if baseNode isn't one, such that the extend nodes of overrideNode are resolved
+    const mergedObj: TraversableObject =
+      getType(baseNode) === "object" && !isEachNode(baseNode)
+        ? { ...(baseNode as TraversableObject) }
+        : {};
+
+    for (const key of Object.keys(overrideNode as TraversableObject)) {
+      mergedObj[key] = mergeNodes(
+        mergedObj[key],
+        (overrideNode as TraversableObject)[key]
+      );
+    }
+
+    const overrideSelfValue = getSelfValue(overrideNode as TraversableObject);
+
+    return overrideSelfValue === undefined
+      ? mergedObj
+      : withSelfValue(mergedObj, overrideSelfValue);
+  }
+
+  return overrideNode;
+}
+
+/**
+ * Deeply combines {@link node} with {@link baseNode} (neither of them is mutated) such that the validators/transformers of both apply,
+ * the ones of {@link baseNode} first. Unlike {@link mergeNodes}, nothing is replaced except when the nodes have different shapes
+ */
+export function combineNodes(baseNode: unknown, node: unknown): unknown {
+  return combineNodesHelper(baseNode, node, new Map());
+}
+
+/**
+ * @param combinedObjs Objects combined so far, keyed by their base object then their other object.
+ * Trees of recursive input types are cyclic, so the same objects are reached again while they're combined
+ */
+function combineNodesHelper(
+  baseNode: unknown,
+  node: unknown,
+  combinedObjs: Map<unknown, Map<unknown, TraversableObject>>
+): unknown {
+  if (baseNode === undefined || baseNode === null) {
+    return node;
+  }
+
+  if (node === undefined || node === null) {
+    return baseNode;
+  }
+
+  if (isConditionalNode(baseNode) || isConditionalNode(node)) {
+    const [conditionalNode, otherNode] = isConditionalNode(node)
+      ? [node, baseNode]
+      : [baseNode as ConditionalNode<unknown, unknown>, node];
+    const { predicate, then, otherwise } = conditionalNode[CONDITION_KEY];
+    const combine = (chosenNode: unknown) =>
+      conditionalNode === node
+        ? combineNodesHelper(otherNode, chosenNode, combinedObjs)
+        : combineNodesHelper(chosenNode, otherNode, combinedObjs);
+
+    return createConditionalNode(predicate, combine(then), combine(otherwise));
+  }
+
+  if (isEachNode(baseNode) && isEachNode(node)) {
+    const combinedEachNode = createEachNode(
+      combineNodesHelper(baseNode[EACH_KEY], node[EACH_KEY], combinedObjs)
+    );
+    const selfValue = combineNodesHelper(
+      getSelfValue(baseNode),
+      getSelfValue(node),
+      combinedObjs
+    );
+
+    return selfValue === undefined
+      ? combinedEachNode
+      : withSelfValue(combinedEachNode, selfValue);
+  }
+
+  if (
+    (isEachNode(baseNode) && getType(node) !== "object") ||
+    (isEachNode(node) && getType(baseNode) !== "object")
+  ) {
+    // Rules of the list itself are the self value of the each node of its elements
+    const selfValue = isEachNode(baseNode)
+      ? combineNodesHelper(getSelfValue(baseNode), node, combinedObjs)
+      : combineNodesHelper(
+          baseNode,
+          getSelfValue(node as TraversableObject),
+          combinedObjs
+        );
+
+    return withSelfValue(
+      (isEachNode(baseNode) ? baseNode : node) as TraversableObject,
+      selfValue
+    );
+  }
+
+  if (getType(baseNode) === "object" && getType(node) === "object") {
+    const combinedObjsOfBase =
+      combinedObjs.get(baseNode) || new Map<unknown, TraversableObject>();
+    combinedObjs.set(baseNode, combinedObjsOfBase);
+
+    const visitedObj = combinedObjsOfBase.get(node);
+    if (visitedObj) {
+      return visitedObj;
+    }
+
+    // Includes the self value of baseNode
+    const combinedObj: TraversableObject = {
+      ...(baseNode as TraversableObject),
+    };
+    // Registered before combining the keys, so that recursive references point to the same object
+    combinedObjsOfBase.set(node, combinedObj);
+
+    const selfValue = getSelfValue(node as TraversableObject);
+    if (selfValue !== undefined) {
+      setSelfValue(combinedObj, selfValue);
+    }
+
+    for (const key of Object.keys(node as TraversableObject)) {
+      combinedObj[key] = combineNodesHelper(
+        combinedObj[key],
+        (node as TraversableObject)[key],
+        combinedObjs
+      );
+    }
+
+    return combinedObj;
+  }
+
+  if (getType(baseNode) === "object" || getType(node) === "object") {
+    return node;
+  }
+
+  return [
+    ...(Array.isArray(baseNode) ? baseNode : [baseNode]),
+    ...(Array.isArray(node) ? node : [node]),
+  ];
+}
+
 /**
  * Similar to array reduce, but the items passed to the reduce callback are the results of calling {@link evaluate} on the array items
  * in which we deal with any returned promises.
@@ -86,7 +466,11 @@ export function reduceAsync<T, K, U, E>(
  * Note: null is returned instead of returning an empty object except if {@link initialValue} is the empty object
  */
 export function mapObject(
-  /** Could be object or array */
+  /**
+   * Could be object or array.
+   * Values created by {@link createEachNode} are mapped for every element of the corresponding list in {@link options.relatedObj}.
+   * Values attached by {@link withSelfValue} are mapped with the corresponding object in {@link options.relatedObj}
+   */
   obj: TraversableObject,
 
   /**
@@ -127,10 +511,31 @@ export function mapObject(
       branchObj: TraversableObject,
       relatedValue: unknown
     ) => boolean;
+
+    /**
+     * Replaces a nested object of {@link obj} before it's traversed (e.g. to traverse only part of it)
+     */
+    mapBranch?: (
+      branchObj: TraversableObject,
+      relatedValue: unknown
+    ) => TraversableObject;
+
+    /**
+     * Replaces each value of {@link obj} (at any depth) before it's mapped or traversed, e.g. to choose between nodes lazily.
+     * Values replaced by undefined are skipped
+     */
+    mapNode?: (node: unknown) => unknown;
+
+    /**
+     * Used to merge mapped self values (See {@link withSelfValue}) into the result object
+     * after all other fields are mapped. Defaults to {@link mergeNodes}
+     */
+    mergeSelfValue?: (existingValue: unknown, mappedValue: unknown) => unknown;
   } = { initialValue: null, relatedObj: null }
 ): MaybePromise<MaybeNull<TraversableObject>> {
   const promises: PromiseLike<unknown>[] = [];
   const promisesAccessKeys: string[][] = [];
+  const selfValues: MappedSelfValue[] = [];
 
   const {
     initialValue = null,
@@ -138,20 +543,58 @@ export function mapObject(
     searchFor,
     skipValueCondition,
     skipBranchCondition,
+    mapBranch,
+    mapNode,
+    mergeSelfValue = mergeNodes,
   } = options;
 
+  const placeSelfValues = (
+    resultObj: MaybeNull<TraversableObject>
+  ): MaybePromise<MaybeNull<TraversableObject>> => {
+    if (selfValues.length === 0) {
+      return resultObj;
+    }
+
+    return reduceAsync(
+      selfValues,
+      (_, selfValue) => selfValue.mappedValue,
+      (acc, mappedValue, i, returnEarly) => {
+        if (skipValueCondition && skipValueCondition(mappedValue)) {
+          return acc;
+        }
+
+        const { accessKey } = selfValues[i];
+
+        if (searchFor) {
+          if (searchFor(mappedValue)) {
+            returnEarly(
+              mergeObjectAt({}, accessKey, mappedValue, mergeSelfValue)
+            );
+          }
+          return acc;
+        }
+
+        return mergeObjectAt(acc, accessKey, mappedValue, mergeSelfValue);
+      },
+      resultObj
+    );
+  };
+
   try {
     let resultObj = mapObjectHelper(
       [],
       promises,
       promisesAccessKeys,
+      selfValues,
       obj,
       mapValue,
       initialValue,
       relatedObj,
       searchFor,
       skipValueCondition,
-      skipBranchCondition
+      skipBranchCondition,
+      mapBranch,
+      mapNode
     );
 
     if (promises.length !== 0) {
@@ -174,11 +617,11 @@ export function mapObject(
           }
         }
 
-        return resultObj;
+        return placeSelfValues(resultObj);
       });
     }
 
-    return resultObj;
+    return placeSelfValues(resultObj);
   } catch (e) {
     if (Array.isArray(e) && e[0] === "abort-early") {
       return e[1];
@@ -188,10 +631,16 @@ export function mapObject(
   }
 }
 
+type MappedSelfValue = {
+  accessKey: string[];
+  mappedValue: unknown;
+};
+
 function mapObjectHelper(
   currentAccessKey: string[],
   promises: PromiseLike<unknown>[],
   promisesAccessKeys: string[][],
+  selfValues: MappedSelfValue[],
 
   obj: TraversableObject,
   mapValue: (value: unknown, relatedValue: unknown) => unknown,
@@ -203,10 +652,24 @@ function mapObjectHelper(
   skipBranchCondition?: (
     branchObj: TraversableObject,
     relatedValue: unknown
-  ) => boolean
+  ) => boolean,
+  mapBranch?: (
+    branchObj: TraversableObject,
+    relatedValue: unknown
+  ) => TraversableObject,
+  mapNode?: (node: unknown) => unknown
 ): MaybeNull<TraversableObject> {
   let resultObj = initialValue;
 
+  const selfValue = getSelfValue(obj);
+  if (selfValue !== undefined) {
+    // Mapped values of the object itself are merged into the result object once all fields are mapped
+    selfValues.push({
+      accessKey: [...currentAccessKey],
+      mappedValue: mapValue(selfValue, relatedObj),
+    });
+  }
+
   const keys = Object.keys(obj);
 
   if (keys.length !== 0) {
@@ -214,8 +677,13 @@ function mapObjectHelper(
   }
 
   for (const key of keys) {
-    const value = obj[key];
-    const relatedValue = relatedObj ? relatedObj[key] : relatedObj;
+    // Fields of a missing object are missing as well
+    const relatedValue = relatedObj ? relatedObj[key] : undefined;
+    const node = mapNode ? mapNode(obj[key]) : obj[key];
+
+    if (node === undefined) continue;
+
+    const value = isEachNode(node) ? expandEachNode(node, relatedValue) : node;
 
     currentAccessKey[currentAccessKey.length - 1] = key;
 
@@ -225,13 +693,16 @@ function mapObjectHelper(
           [...currentAccessKey],
           promises,
           promisesAccessKeys,
-          value,
+          selfValues,
+          mapBranch ? mapBranch(value, relatedValue) : value,
           mapValue,
           initialValue ? initialValue[key] : initialValue,
           relatedValue,
           searchFor,
           skipValueCondition,
-          skipBranchCondition
+          skipBranchCondition,
+          mapBranch,
+          mapNode
         );
 
         if (branch) {
@@ -270,3 +741,111 @@ function mapObjectHelper(
 
   return resultObj;
 }
+
+/**
+ * @returns promise that settles the same as {@link promise} unless it doesn't within {@link ms} milliseconds,
+ * in which case it resolves to the value returned from {@link onTimeout} (or rejects with the error it throws)
+ */
+export function raceTimeout<T, U>(
+  promise: PromiseLike<T>,
+  ms: number,
+  onTimeout: () => U
+): Promise<T | U> {
+  return new Promise<T | U>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      try {
+        resolve(onTimeout());
+      } catch (e) {
+        reject(e);
+      }
+    }, ms);
+
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Loads values one key at a time while {@link load} is called once per batch of keys.
+ * Keys requested in the same tick (including promise callbacks of that tick) make up a batch
+ */
+export type BatchLoader<K, V> = (key: K) => Promise<V>;
+
+/**
+ * Similar to DataLoader: keys with the same {@link cacheKey} are loaded once per batch (or once per loader when {@link cache} is true)
+ *
+ * @param load returns a value for each key, in the same order
+ */
+export function createBatchLoader<K, V>(
+  load: (keys: K[]) => MaybePromise<readonly V[]>,
+  cacheKey: (key: K) => unknown = (key) => key,
+  cache = true
+): BatchLoader<K, V> {
+  const promises = new Map<unknown, Promise<V>>();
+  let batch: MaybeNull<{
+    keys: K[];
+    callbacks: {
+      resolve: (value: V) => void;
+      reject: (error: unknown) => void;
+    }[];
+  }> = null;
+
+  const dispatch = () => {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const { keys, callbacks } = batch!;
+    batch = null;
+
+    if (!cache) {
+      promises.clear();
+    }
+
+    new Promise<readonly V[]>((resolve) => resolve(load(keys)))
+      .then((values) => {
+        if (!Array.isArray(values) || values.length !== keys.length) {
+          throw new Error(
+            `Batch load function must return an array of ${keys.length} values, one for each key`
+          );
+        }
+
+        callbacks.forEach(({ resolve }, i) => resolve(values[i]));
+      })
+      .catch((error) => {
+        // Failed keys can be loaded again
+        keys.forEach((key) => promises.delete(cacheKey(key)));
+        callbacks.forEach(({ reject }) => reject(error));
+      });
+  };
+
+  return (key) => {
+    const keyOfCache = cacheKey(key);
+    const existingPromise = promises.get(keyOfCache);
+
+    if (existingPromise) {
+      return existingPromise;
+    }
+
+    if (!batch) {
+      batch = { keys: [], callbacks: [] };
+      // Wait for the promise callbacks of the current tick, which may request more keys
+      Promise.resolve().then(() => process.nextTick(dispatch));
+    }
+
+    const currentBatch = batch;
+    const promise = new Promise<V>((resolve, reject) => {
+      currentBatch.keys.push(key);
+      currentBatch.callbacks.push({ resolve, reject });
+    });
+
+    promises.set(keyOfCache, promise);
+
+    return promise;
+  };
+}
@@ -1,19 +1,113 @@
 import { isPromiseLike, MaybePromise } from "nexus/dist/core";
 
-import { MaybeNull, MaybeNullable } from "./types";
+import { MaybeNull, MaybeNullable, NullabilityStrategy } from "./types";
 import {
+  DateBound,
+  describeDateBound,
+  Duration,
+  durationToMilliseconds,
+  isValidDate,
+  resolveDateBound,
+  toDate,
+  truncateDateTo,
+} from "./dates";
+import {
+  ObjectValidationResult,
+  ObjectValidator,
   ValidationResultError,
   ValidationResultErrorExtras,
   Validator,
+  ValidatorMetadata,
+  ValidatorRule,
 } from ".";
-import { reduceAsync } from "./utils";
+import {
+  BatchLoader,
+  createBatchLoader,
+  raceTimeout,
+  reduceAsync,
+} from "./utils";
+
+export { DateBound, Duration, fromNow, RelativeDate } from "./dates";
+
+/**
+ * Validators are published as a separate bundle (`dist/validators`) from the rest of the package,
+ * so registries are kept on the global object for both bundles to share them
+ */
+function getSharedRegistry<Registry>(
+  name: string,
+  createRegistry: () => Registry
+): Registry {
+  const key = Symbol.for(`nexus-args-validator.${name}`);
+  const globals = globalThis as unknown as Record<symbol, Registry | undefined>;
+
+  let registry = globals[key];
+  if (!registry) {
+    registry = createRegistry();
+    globals[key] = registry;
+  }
+
+  return registry;
+}
+
+const validatorsMetadata = getSharedRegistry(
+  "validatorsMetadata",
+  () => new WeakMap<Validator<never>, ValidatorMetadata>()
+);
+
+/**
+ * @returns error code and extras of validators created by {@link defineValidator} (undefined for any other validator)
+ */
+export function getValidatorMetadata(
+  validator: Validator<never>
+): ValidatorMetadata | undefined {
+  return validatorsMetadata.get(validator);
+}
+
+const validatorsRules = getSharedRegistry(
+  "validatorsRules",
+  () => new WeakMap<Validator<never>, ValidatorRule>()
+);
+
+/**
+ * @returns the built-in validator {@link validator} is, along with the params it's created with.
+ * Undefined for custom validators
+ */
+export function getValidatorRule(
+  validator: Validator<never>
+): ValidatorRule | undefined {
+  return validatorsRules.get(validator);
+}
+
+/**
+ * Records that {@link validator} is the built-in validator {@link name} created with {@link params},
+ * which allows running it outside of the server (See `generateClientValidators`)
+ */
+function defineBuiltIn<T>(
+  validator: Validator<T>,
+  name: string,
+  params: ValidatorRule["params"] = {}
+): Validator<T> {
+  validatorsRules.set(validator as Validator<never>, { name, params });
+  return validator;
+}
+
+const presenceValidators = getSharedRegistry(
+  "presenceValidators",
+  () => new WeakSet<object>()
+);
 
 /**
- * normal: (arg: T) -> validation passes in case of nullable (null/undefined)
- * strict: (arg: T | null | undefined) -> full control
- * strict-with-null: (arg: T | null) -> undefined is converted to null
+ * @returns true if {@link validator} checks the presence of its arg, so it runs even when the object containing its arg is missing
+ * (Otherwise, validators of the fields of a missing input object are skipped)
  */
-type NullabilityStrategy = "normal" | "strict" | "strict-with-null";
+export function isPresenceValidator(validator: unknown): boolean {
+  return typeof validator === "function" && presenceValidators.has(validator);
+}
+
+function definePresence<V extends object>(validator: V): V {
+  presenceValidators.add(validator);
+  return validator;
+}
 
 /**
  * Utility to easily create validators
@@ -37,7 +131,7 @@ export function defineValidator<T, S extends NullabilityStrategy = "normal">(
   takeErrorCondition = true,
   nullabilityStrategy?: S
 ): Validator<MaybeNullable<T>> {
-  return (arg) => {
+  const validator: Validator<MaybeNullable<T>> = (arg) => {
     if (!nullabilityStrategy || nullabilityStrategy === "normal") {
       if (arg === null || arg === undefined) {
         return undefined; // Validation passes
@@ -62,6 +156,73 @@ export function defineValidator<T, S extends NullabilityStrategy = "normal">(
       return undefined;
     }
   };
+
+  validatorsMetadata.set(validator, { code: errorCode, extras });
+
+  return validator;
+}
+
+/**
+ * Utility to create async validators whose checks are batched, e.g. to check the uniqueness of many usernames with one query.
+ * The returned function creates the validator of a request context: checks of validators of the same context
+ * that are requested in the same tick are coalesced into one call of {@link errorConditions},
+ * and checks of the same arg are only done once per context (unless `cache` is false).
+ * Validation passes in case of nullable args (same as the "normal" nullability strategy)
+ *
+ * @example
+ * ```
+ * const uniqueUsername = defineBatchValidator(
+ *   "not-unique",
+ *   async (usernames: string[], ctx: Context) => {
+ *     const users = await ctx.db.user.findMany({ where: { username: { in: usernames } } });
+ *     return usernames.map((username) => users.some((user) => user.username === username));
+ *   }
+ * );
+ *
+ * validate: (_, args, ctx) => ({ users: each({ username: uniqueUsername(ctx) }) })
+ * ```
+ *
+ * @param errorCode to use when validation fails
+ * @param errorConditions returns whether validation fails for each of the args, in the same order
+ * @param options.key identifies args that are checked only once. Defaults to the arg itself
+ * @param options.extras returned along with error code when validation fails
+ * @param options.cache keep the checks for the whole context rather than a single batch. Defaults to true
+ */
+export function defineBatchValidator<T, Ctx extends object>(
+  errorCode: string,
+  errorConditions: (args: T[], ctx: Ctx) => MaybePromise<readonly boolean[]>,
+  {
+    key,
+    extras = null,
+    cache = true,
+  }: {
+    key?: (arg: T) => unknown;
+    extras?: ValidationResultErrorExtras;
+    cache?: boolean;
+  } = {}
+): (ctx: Ctx) => Validator<MaybeNullable<T>> {
+  const loaders = new WeakMap<Ctx, BatchLoader<T, boolean>>();
+
+  return (ctx) => {
+    const loader =
+      loaders.get(ctx) ||
+      createBatchLoader((args: T[]) => errorConditions(args, ctx), key, cache);
+    loaders.set(ctx, loader);
+
+    const validator: Validator<MaybeNullable<T>> = (arg) => {
+      if (arg === null || arg === undefined) {
+        return undefined; // Validation passes
+      }
+
+      return loader(arg).then((isInvalid) =>
+        isInvalid ? [errorCode, extras] : undefined
+      );
+    };
+
+    validatorsMetadata.set(validator, { code: errorCode, extras });
+
+    return validator;
+  };
 }
 
 /**
@@ -72,8 +233,8 @@ export function notValidator<T>(
   validator: Validator<T>,
   error: ValidationResultError
 ): Validator<T> {
-  return (arg) => {
-    const validationResultOrPromise = validator(arg);
+  return (arg, signal) => {
+    const validationResultOrPromise = validator(arg, signal);
 
     if (isPromiseLike(validationResultOrPromise)) {
       return validationResultOrPromise.then((validatorResult) => {
@@ -93,6 +254,37 @@ export function notValidator<T>(
   };
 }
 
+/**
+ * @returns a new validator that passes for null and undefined args, and passes any other arg to {@link validator}.
+ * It has the same metadata as {@link validator} (See {@link getValidatorMetadata})
+ *
+ * @example
+ * ```
+ * validate: { bio: nullableValidator(isPalindrome) }
+ * ```
+ */
+export function nullableValidator<T>(
+  validator: Validator<T>
+): Validator<MaybeNullable<T>> {
+  const newValidator: Validator<MaybeNullable<T>> = (arg, signal) => {
+    return arg === null || arg === undefined
+      ? undefined
+      : validator(arg, signal);
+  };
+
+  const metadata = validatorsMetadata.get(validator as Validator<never>);
+  if (metadata) {
+    validatorsMetadata.set(newValidator, metadata);
+  }
+
+  const rule = validatorsRules.get(validator as Validator<never>);
+  if (rule) {
+    validatorsRules.set(newValidator, rule);
+  }
+
+  return newValidator;
+}
+
 /**
  * @param error If provided, this is used instead of the errors collected by child validators
  *
@@ -102,11 +294,11 @@ export function orValidators<T>(
   validators: [Validator<T>, Validator<T>, ...Validator<T>[]],
   error?: ValidationResultError
 ): Validator<T> {
-  return (arg) => {
+  return (arg, signal) => {
     return reduceAsync(
       validators,
 
-      (_, validator) => validator(arg),
+      (_, validator) => validator(arg, signal),
 
       (acc, validationResult, _, returnEarly) => {
         if (validationResult === undefined) {
@@ -140,11 +332,11 @@ export function andValidators<T>(
   abortEarly = true,
   error?: ValidationResultError
 ): Validator<T> {
-  return (arg) => {
+  return (arg, signal) => {
     return reduceAsync(
       validators,
 
-      (_, validator) => validator(arg),
+      (_, validator) => validator(arg, signal),
 
       (acc, validationResult, _, returnEarly) => {
         if (validationResult != undefined) {
@@ -166,6 +358,160 @@ export function andValidators<T>(
   };
 }
 
+/**
+ * @returns validator that fails with {@link errorCode} if {@link validator} (when async) doesn't finish within {@link ms} milliseconds
+ */
+export function withTimeout<T>(
+  validator: Validator<T>,
+  ms: number,
+  errorCode = "validation-timeout"
+): Validator<T> {
+  return (arg, signal) => {
+    const validationResultOrPromise = validator(arg, signal);
+
+    if (isPromiseLike(validationResultOrPromise)) {
+      return raceTimeout(
+        validationResultOrPromise,
+        ms,
+        (): ValidationResultError => [errorCode, { timeout: ms }]
+      );
+    }
+
+    return validationResultOrPromise;
+  };
+}
+
+//===================================
+// Presence
+// (Run even when the object containing the arg is missing)
+//===================================
+
+/**
+ * @returns validator that fails when the arg is null or undefined (omitted)
+ */
+export const required = (errorCode = "required") =>
+  definePresence(
+    defineValidator<unknown, "strict">(
+      errorCode,
+      (arg) => arg === null || arg === undefined,
+      null,
+      true,
+      "strict"
+    )
+  );
+
+/**
+ * @returns validator that fails when the arg is explicitly null. Omitting the arg passes
+ */
+export const notNull = (errorCode = "not-null") =>
+  definePresence(
+    defineValidator<unknown, "strict">(
+      errorCode,
+      (arg) => arg === null,
+      null,
+      true,
+      "strict"
+    )
+  );
+
+/**
+ * @returns validator that fails when the arg is undefined (omitted). Explicit null passes
+ */
+export const notUndefined = (errorCode = "not-undefined") =>
+  definePresence(
+    defineValidator<unknown, "strict">(
+      errorCode,
+      (arg) => arg === undefined,
+      null,
+      true,
+      "strict"
+    )
+  );
+
+/**
+ * @returns validator that fails when the arg is provided (even if it's explicitly null)
+ */
+export const forbidden = (errorCode = "forbidden") =>
+  definePresence(
+    defineValidator<unknown, "strict">(
+      errorCode,
+      (arg) => arg !== undefined,
+      null,
+      true,
+      "strict"
+    )
+  );
+
+/**
+ * @returns keys of {@link obj} whose values are neither null nor undefined
+ */
+function getProvidedKeys<Key extends string>(
+  obj: MaybeNullable<{ [key in Key]?: unknown }>,
+  keys: readonly Key[]
+): Key[] {
+  return keys.filter(
+    (key) => obj && obj[key] !== null && obj[key] !== undefined
+  );
+}
+
+/**
+ * @returns object validator that fails when none of the values at {@link keys} is provided (neither null nor undefined).
+ * The error is reported at every key in {@link keys}
+ *
+ * @example
+ * ```
+ * validate: validateObject(atLeastOneOf(["email", "phone"])),
+ * ```
+ */
+export function atLeastOneOf<Key extends string>(
+  keys: readonly Key[],
+  errorCode = "at-least-one-of"
+): ObjectValidator<{ [key in Key]?: unknown }> {
+  return definePresence((obj: MaybeNullable<{ [key in Key]?: unknown }>) => {
+    if (getProvidedKeys(obj, keys).length !== 0) {
+      return undefined;
+    }
+
+    const errors: ObjectValidationResult<{ [key in Key]?: unknown }> = {};
+    for (const key of keys) {
+      errors[key] = [errorCode, { keys: keys.join(",") }];
+    }
+
+    return errors;
+  });
+}
+
+/**
+ * @returns object validator that fails unless exactly one of the values at {@link keys} is provided (neither null nor undefined).
+ * The error is reported at every key in {@link keys} if none is provided, otherwise at every provided key
+ *
+ * @example
+ * ```
+ * validate: {
+ *   target: validateObject(exactlyOneOf(["userId", "teamId"])),
+ * }
+ * ```
+ */
+export function exactlyOneOf<Key extends string>(
+  keys: readonly Key[],
+  errorCode = "exactly-one-of"
+): ObjectValidator<{ [key in Key]?: unknown }> {
+  return definePresence((obj: MaybeNullable<{ [key in Key]?: unknown }>) => {
+    const providedKeys = getProvidedKeys(obj, keys);
+
+    if (providedKeys.length === 1) {
+      return undefined;
+    }
+
+    const errors: ObjectValidationResult<{ [key in Key]?: unknown }> = {};
+    for (const key of providedKeys.length === 0 ? keys : providedKeys) {
+      errors[key] = [errorCode, { keys: keys.join(",") }];
+    }
+
+    return errors;
+  });
+}
+
 //===================================
 // Numbers
 //===================================
@@ -174,43 +520,167 @@ export function andValidators<T>(
  * @returns number validator that fails when the number arg is above {@link n}
  */
 export const max = (n: number, errorCode = "max") =>
-  defineValidator<number>(errorCode, (arg) => arg > n, { n });
+  defineBuiltIn(
+    defineValidator<number>(errorCode, (arg) => arg > n, { n }),
+    "max",
+    { n }
+  );
 
 /**
  * @returns number validator that fails when the number arg is below {@link n}
  */
 export const min = (n: number, errorCode = "min") =>
-  defineValidator<number>(errorCode, (arg) => arg < n, { n });
+  defineBuiltIn(
+    defineValidator<number>(errorCode, (arg) => arg < n, { n }),
+    "min",
+    { n }
+  );
+
+export interface RangeOptions {
+  /**
+   * If true, the arg must be strictly above the lower bound. Defaults to false
+   */
+  lowerExclusive?: boolean;
+
+  /**
+   * If true, the arg must be strictly below the upper bound. Defaults to false
+   */
+  upperExclusive?: boolean;
+}
 
 /**
- * @returns number validator that fails when the number arg is not within the range [{@link lowerBound}, {@link upperBound}]
+ * @returns number validator that fails when the number arg is not within the range [{@link lowerBound}, {@link upperBound}].
+ * Either bound can be made exclusive through {@link options}, which is also reflected in the extras
  */
 export const range = (
   lowerBound: number,
   upperBound: number,
-  errorCode = "range"
+  errorCode = "range",
+  { lowerExclusive = false, upperExclusive = false }: RangeOptions = {}
 ) =>
-  defineValidator<number>(
-    errorCode,
-    (arg) => arg < lowerBound || arg > upperBound,
-    { lowerBound, upperBound }
+  defineBuiltIn(
+    defineValidator<number>(
+      errorCode,
+      (arg) =>
+        (lowerExclusive ? arg <= lowerBound : arg < lowerBound) ||
+        (upperExclusive ? arg >= upperBound : arg > upperBound),
+      {
+        lowerBound,
+        upperBound,
+        ...(lowerExclusive && { lowerExclusive }),
+        ...(upperExclusive && { upperExclusive }),
+      }
+    ),
+    "range",
+    { lowerBound, upperBound, lowerExclusive, upperExclusive }
+  );
+
+/**
+ * @returns number validator that fails when the number arg is not an integer
+ */
+export const integer = (errorCode = "integer") =>
+  defineBuiltIn(
+    defineValidator<number>(errorCode, (arg) => !Number.isInteger(arg)),
+    "integer"
+  );
+
+/**
+ * @returns number validator that fails when the number arg is not above 0
+ */
+export const positive = (errorCode = "positive") =>
+  defineBuiltIn(
+    defineValidator<number>(errorCode, (arg) => !(arg > 0)),
+    "positive"
+  );
+
+/**
+ * @returns number validator that fails when the number arg is below 0
+ */
+export const nonNegative = (errorCode = "non-negative") =>
+  defineBuiltIn(
+    defineValidator<number>(errorCode, (arg) => !(arg >= 0)),
+    "nonNegative"
+  );
+
+/**
+ * @returns number validator that fails when the number arg is not a multiple of {@link n}.
+ * Floating point errors are tolerated e.g. `0.3` is a multiple of `0.1`
+ */
+export const multipleOf = (n: number, errorCode = "multiple-of") =>
+  defineBuiltIn(
+    defineValidator<number>(
+      errorCode,
+      (arg) => {
+        const quotient = arg / n;
+        return !(Math.abs(quotient - Math.round(quotient)) < 1e-9);
+      },
+      { n }
+    ),
+    "multipleOf",
+    { n }
+  );
+
+/**
+ * @returns number validator that fails when the number arg has more than {@link maxDecimals} decimal places
+ */
+export const precision = (maxDecimals: number, errorCode = "precision") =>
+  defineBuiltIn(
+    defineValidator<number>(
+      errorCode,
+      (arg) => countDecimals(arg) > maxDecimals,
+      { maxDecimals }
+    ),
+    "precision",
+    { maxDecimals }
+  );
+
+/**
+ * @returns number validator that fails when the number arg is NaN or infinite
+ */
+export const finite = (errorCode = "finite") =>
+  defineBuiltIn(
+    defineValidator<number>(errorCode, (arg) => !Number.isFinite(arg)),
+    "finite"
   );
 
+function countDecimals(n: number): number {
+  if (!Number.isFinite(n)) return 0;
+
+  // Handles exponential notation e.g. 1e-7
+  const [mantissa, exponent = "0"] = String(n).toLowerCase().split("e");
+  const mantissaDecimals = (mantissa.split(".")[1] || "").length;
+
+  return Math.max(0, mantissaDecimals - Number(exponent));
+}
+
 //===================================
 // Arrays
 //===================================
 
+/**
+ * Any array (or string) arg
+ */
+type Sized = string | readonly unknown[];
+
 /**
  * @returns array/string validator that fails when the array arg length is above {@link n}
  */
 export const maxSize = (n: number, errorCode = "max-size") =>
-  defineValidator<[] | string>(errorCode, (arg) => arg.length > n, { n });
+  defineBuiltIn(
+    defineValidator<Sized>(errorCode, (arg) => arg.length > n, { n }),
+    "maxSize",
+    { n }
+  );
 
 /**
  * @returns array/string validator that fails when the array arg length is below {@link n}
  */
 export const minSize = (n: number, errorCode = "min-size") =>
-  defineValidator<[] | string>(errorCode, (arg) => arg.length < n, { n });
+  defineBuiltIn(
+    defineValidator<Sized>(errorCode, (arg) => arg.length < n, { n }),
+    "minSize",
+    { n }
+  );
 
 /**
  * @returns array/string validator that fails when the array arg length is not within the range [{@link lowerBound}, {@link upperBound}]
@@ -220,9 +690,13 @@ export const rangeSize = (
   upperBound: number,
   errorCode = "range-size"
 ) =>
-  defineValidator<[] | string>(
-    errorCode,
-    (arg) => arg.length < lowerBound || arg.length > upperBound,
+  defineBuiltIn(
+    defineValidator<Sized>(
+      errorCode,
+      (arg) => arg.length < lowerBound || arg.length > upperBound,
+      { lowerBound, upperBound }
+    ),
+    "rangeSize",
     { lowerBound, upperBound }
   );
 
@@ -230,7 +704,115 @@ export const rangeSize = (
  * @returns array validator that fails when the array arg is empty
  */
 export const nonEmpty = (errorCode = "non-empty") =>
-  defineValidator<[] | string>(errorCode, (arg) => arg.length === 0);
+  defineBuiltIn(
+    defineValidator<Sized>(errorCode, (arg) => arg.length === 0),
+    "nonEmpty"
+  );
+
+/**
+ * @returns array validator that fails when the array arg has duplicate elements.
+ * If {@link key} is provided, elements are compared by the returned value
+ *
+ * @example
+ * ```
+ * teamsIds: unique(),
+ * profiles: unique((profile: { id: string }) => profile.id),
+ * ```
+ */
+export const unique = <T>(
+  key?: (element: T) => unknown,
+  errorCode = "unique"
+) => {
+  const validator = defineValidator<readonly T[]>(errorCode, (arg) => {
+    const keys = key ? arg.map(key) : arg;
+    return new Set(keys).size !== keys.length;
+  });
+
+  // Key selectors can't run outside of the server
+  return key ? validator : defineBuiltIn(validator, "unique");
+};
+
+/**
+ * @returns array validator that fails when the array arg does not include every one of {@link values}
+ */
+export const includesAll = (
+  values: readonly (string | number | boolean)[],
+  errorCode = "includes-all"
+) =>
+  defineBuiltIn(
+    defineValidator<readonly (string | number | boolean)[]>(
+      errorCode,
+      (arg) => !values.every((value) => arg.includes(value)),
+      { values: values.join(",") }
+    ),
+    "includesAll",
+    { values: [...values] }
+  );
+
+/**
+ * @returns array validator that fails when the array arg includes any of {@link values}
+ */
+export const includesNone = (
+  values: readonly (string | number | boolean)[],
+  errorCode = "includes-none"
+) =>
+  defineBuiltIn(
+    defineValidator<readonly (string | number | boolean)[]>(
+      errorCode,
+      (arg) => values.some((value) => arg.includes(value)),
+      { values: values.join(",") }
+    ),
+    "includesNone",
+    { values: [...values] }
+  );
+
+/**
+ * @returns array validator that fails when the array arg includes an element that is not one of {@link allowed}
+ */
+export const subsetOf = (
+  allowed: readonly (string | number | boolean)[],
+  errorCode = "subset-of"
+) =>
+  defineBuiltIn(
+    defineValidator<readonly (string | number | boolean)[]>(
+      errorCode,
+      (arg) => !arg.every((element) => allowed.includes(element)),
+      { allowed: allowed.join(",") }
+    ),
+    "subsetOf",
+    { allowed: [...allowed] }
+  );
+
+/**
+ * @returns array validator that fails when the array arg is not sorted in {@link direction} (equal elements are allowed).
+ * If {@link key} is provided, elements are compared by the returned value
+ */
+export const sorted = <T>(
+  direction: "asc" | "desc" = "asc",
+  key?: (element: T) => number | string,
+  errorCode = "sorted"
+) => {
+  const validator = defineValidator<readonly T[]>(
+    errorCode,
+    (arg) => {
+      const keys = key ? arg.map(key) : arg;
+
+      for (let i = 1; i < keys.length; i++) {
+        if (
+          direction === "asc" ? keys[i - 1] > keys[i] : keys[i - 1] < keys[i]
+        ) {
+          return true;
+        }
+      }
+
+      return false;
+    },
+    { direction }
+  );
+
+  // Key selectors can't run outside of the server
+  return key ? validator : defineBuiltIn(validator, "sorted", { direction });
+};
 
 //===================================
 // Strings
@@ -240,6 +822,384 @@ export const nonEmpty = (errorCode = "non-empty") =>
  * @returns string validator that fails when the string arg does not respect {@link regexp}
  */
 export const pattern = (regexp: RegExp, errorCode = "pattern") =>
-  defineValidator<string>(errorCode, (arg) => !regexp.test(arg), {
-    regexp: regexp.source,
+  defineBuiltIn(
+    defineValidator<string>(errorCode, (arg) => !regexp.test(arg), {
+      regexp: regexp.source,
+    }),
+    "pattern",
+    { source: regexp.source, flags: regexp.flags }
+  );
+
+// Regexp of validators that are equivalent to a pattern. Registered along with the rule params,
+// so that they can run on the client (See `generateClientValidators`)
+
+const EMAIL_REGEXP =
+  /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)+$/;
+
+const SLUG_REGEXP = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const ALPHANUMERIC_REGEXP = /^[a-zA-Z0-9]+$/;
+
+const HEX_COLOR_REGEXP =
+  /^#(?:[0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+const PHONE_E164_REGEXP = /^\+[1-9]\d{1,14}$/;
+
+const IPV4_PATTERN =
+  "(?:(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)\\.){3}(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+
+const IPV6_HEXTET = "[0-9a-fA-F]{1,4}";
+
+const IPV6_PATTERN = [
+  `(?:${IPV6_HEXTET}:){7}${IPV6_HEXTET}`,
+  `(?:${IPV6_HEXTET}:){1,7}:`,
+  `(?:${IPV6_HEXTET}:){1,6}:${IPV6_HEXTET}`,
+  `(?:${IPV6_HEXTET}:){1,5}(?::${IPV6_HEXTET}){1,2}`,
+  `(?:${IPV6_HEXTET}:){1,4}(?::${IPV6_HEXTET}){1,3}`,
+  `(?:${IPV6_HEXTET}:){1,3}(?::${IPV6_HEXTET}){1,4}`,
+  `(?:${IPV6_HEXTET}:){1,2}(?::${IPV6_HEXTET}){1,5}`,
+  `${IPV6_HEXTET}:(?::${IPV6_HEXTET}){1,6}`,
+  `:(?:(?::${IPV6_HEXTET}){1,7}|:)`,
+  `(?:${IPV6_HEXTET}:){6}${IPV4_PATTERN}`,
+  `::(?:ffff(?::0{1,4})?:)?${IPV4_PATTERN}`,
+  `(?:${IPV6_HEXTET}:){1,4}:${IPV4_PATTERN}`,
+].join("|");
+
+function uuidRegExp(version?: 1 | 2 | 3 | 4 | 5): RegExp {
+  const versionPattern = version ? String(version) : "[0-9a-f]";
+  const variantPattern = version ? "[89ab]" : "[0-9a-f]";
+
+  return new RegExp(
+    `^[0-9a-f]{8}-[0-9a-f]{4}-${versionPattern}[0-9a-f]{3}-${variantPattern}[0-9a-f]{3}-[0-9a-f]{12}$`,
+    "i"
+  );
+}
+
+function ipAddressRegExp(version?: 4 | 6): RegExp {
+  const ipPattern =
+    version === 4
+      ? IPV4_PATTERN
+      : version === 6
+      ? IPV6_PATTERN
+      : `${IPV4_PATTERN}|${IPV6_PATTERN}`;
+
+  return new RegExp(`^(?:${ipPattern})$`);
+}
+
+function regExpParams(regexp: RegExp) {
+  return { source: regexp.source, flags: regexp.flags };
+}
+
+/**
+ * @returns string validator that fails when the string arg is not a valid email address
+ */
+export const email = (errorCode = "email") =>
+  defineBuiltIn(
+    defineValidator<string>(errorCode, (arg) => !EMAIL_REGEXP.test(arg)),
+    "email",
+    regExpParams(EMAIL_REGEXP)
+  );
+
+/**
+ * @returns string validator that fails when the string arg is not a valid absolute URL
+ * or its protocol is not one of {@link protocols} (without the trailing colon)
+ */
+export const url = (
+  protocols: readonly string[] = ["http", "https"],
+  errorCode = "url"
+) =>
+  defineBuiltIn(
+    defineValidator<string>(
+      errorCode,
+      (arg) => {
+        try {
+          return !protocols.includes(new URL(arg).protocol.slice(0, -1));
+        } catch {
+          return true;
+        }
+      },
+      { protocols: protocols.join(",") }
+    ),
+    "url",
+    { protocols: [...protocols] }
+  );
+
+/**
+ * @returns string validator that fails when the string arg is not a valid UUID.
+ * If {@link version} is provided, the UUID must be of that version (and of the RFC 4122 variant)
+ */
+export const uuid = (version?: 1 | 2 | 3 | 4 | 5, errorCode = "uuid") => {
+  const regexp = uuidRegExp(version);
+
+  return defineBuiltIn(
+    defineValidator<string>(
+      errorCode,
+      (arg) => !regexp.test(arg),
+      version ? { version } : null
+    ),
+    "uuid",
+    { ...regExpParams(regexp), version: version || null }
+  );
+};
+
+/**
+ * @returns string validator that fails when the string arg is not a slug
+ * i.e. lowercase letters and digits separated by single hyphens e.g. `my-first-post`
+ */
+export const slug = (errorCode = "slug") =>
+  defineBuiltIn(
+    defineValidator<string>(errorCode, (arg) => !SLUG_REGEXP.test(arg)),
+    "slug",
+    regExpParams(SLUG_REGEXP)
+  );
+
+/**
+ * @returns string validator that fails when the string arg contains characters other than ASCII letters and digits
+ */
+export const alphanumeric = (errorCode = "alphanumeric") =>
+  defineBuiltIn(
+    defineValidator<string>(errorCode, (arg) => !ALPHANUMERIC_REGEXP.test(arg)),
+    "alphanumeric",
+    regExpParams(ALPHANUMERIC_REGEXP)
+  );
+
+/**
+ * @returns string validator that fails when the string arg is not a hex color e.g. `#fff`, `#ffffff` or `#ffffff80`
+ */
+export const hexColor = (errorCode = "hex-color") =>
+  defineBuiltIn(
+    defineValidator<string>(errorCode, (arg) => !HEX_COLOR_REGEXP.test(arg)),
+    "hexColor",
+    regExpParams(HEX_COLOR_REGEXP)
+  );
+
+/**
+ * @returns string validator that fails when the string arg is not an IP address.
+ * If {@link version} is provided, only addresses of that version are valid
+ */
+export const ipAddress = (version?: 4 | 6, errorCode = "ip-address") => {
+  const regexp = ipAddressRegExp(version);
+
+  return defineBuiltIn(
+    defineValidator<string>(
+      errorCode,
+      (arg) => !regexp.test(arg),
+      version ? { version } : null
+    ),
+    "ipAddress",
+    { ...regExpParams(regexp), version: version || null }
+  );
+};
+
+/**
+ * @returns string validator that fails when the string arg is not a phone number in E.164 format e.g. `+14155552671`
+ */
+export const phoneE164 = (errorCode = "phone-e164") =>
+  defineBuiltIn(
+    defineValidator<string>(errorCode, (arg) => !PHONE_E164_REGEXP.test(arg)),
+    "phoneE164",
+    regExpParams(PHONE_E164_REGEXP)
+  );
+
+/**
+ * @returns string validator that fails when the string arg does not start with {@link prefix}
+ */
+export const startsWith = (prefix: string, errorCode = "starts-with") =>
+  defineBuiltIn(
+    defineValidator<string>(errorCode, (arg) => !arg.startsWith(prefix), {
+      prefix,
+    }),
+    "startsWith",
+    { prefix }
+  );
+
+/**
+ * @returns string validator that fails when the string arg does not end with {@link suffix}
+ */
+export const endsWith = (suffix: string, errorCode = "ends-with") =>
+  defineBuiltIn(
+    defineValidator<string>(errorCode, (arg) => !arg.endsWith(suffix), {
+      suffix,
+    }),
+    "endsWith",
+    { suffix }
+  );
+
+/**
+ * @returns string validator that fails when the string arg does not contain {@link substring}
+ */
+export const contains = (substring: string, errorCode = "contains") =>
+  defineBuiltIn(
+    defineValidator<string>(errorCode, (arg) => !arg.includes(substring), {
+      substring,
+    }),
+    "contains",
+    { substring }
+  );
+
+/**
+ * @returns validator that fails when the arg is not one of {@link values}.
+ * Values are listed in the error extras separated by commas
+ */
+export const oneOf = (
+  values: readonly (string | number | boolean)[],
+  errorCode = "one-of"
+) =>
+  defineBuiltIn(
+    defineValidator<string | number | boolean>(
+      errorCode,
+      (arg) => !values.includes(arg),
+      { values: values.join(",") }
+    ),
+    "oneOf",
+    { values: [...values] }
+  );
+
+//===================================
+// Dates
+// (Validate both Date instances and ISO strings)
+//===================================
+
+const ISO_DATE_REGEXP =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * @returns validator that fails when the string arg is not an ISO 8601 date (e.g. `2024-05-01` or `2024-05-01T10:00:00Z`)
+ * or the Date arg is invalid
+ */
+export const isoDate = (errorCode = "iso-date") =>
+  defineValidator<Date | string>(errorCode, (arg) => {
+    if (arg instanceof Date) return !isValidDate(arg);
+
+    const match = ISO_DATE_REGEXP.exec(arg);
+    if (!match || !isValidDate(toDate(arg))) return true;
+
+    // Reject overflowing days e.g. `2023-02-30`
+    const [, year, month, day] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day;
   });
+
+/**
+ * @returns validator that fails when the date arg is not before {@link bound} (or is invalid)
+ *
+ * @example
+ * ```
+ * before("2030-01-01")
+ * before(fromNow({ days: -1 })) // At least a day ago
+ * ```
+ */
+export const before = (bound: DateBound, errorCode = "before") =>
+  defineValidator<Date | string>(
+    errorCode,
+    (arg) => !(toDate(arg).getTime() < resolveDateBound(bound).getTime()),
+    { date: describeDateBound(bound) }
+  );
+
+/**
+ * @returns validator that fails when the date arg is not after {@link bound} (or is invalid)
+ */
+export const after = (bound: DateBound, errorCode = "after") =>
+  defineValidator<Date | string>(
+    errorCode,
+    (arg) => !(toDate(arg).getTime() > resolveDateBound(bound).getTime()),
+    { date: describeDateBound(bound) }
+  );
+
+/**
+ * @returns validator that fails when the date arg is not within the range [{@link start}, {@link end}] (or is invalid)
+ */
+export const dateRange = (
+  start: DateBound,
+  end: DateBound,
+  errorCode = "date-range"
+) =>
+  defineValidator<Date | string>(
+    errorCode,
+    (arg) => {
+      const time = toDate(arg).getTime();
+      return !(
+        time >= resolveDateBound(start).getTime() &&
+        time <= resolveDateBound(end).getTime()
+      );
+    },
+    { start: describeDateBound(start), end: describeDateBound(end) }
+  );
+
+/**
+ * @returns validator that fails when the date arg is before the time of validation.
+ * If {@link granularity} is `day`, any time of the current day (UTC) passes
+ */
+export const notInPast = (
+  granularity: "millisecond" | "day" = "millisecond",
+  errorCode = "not-in-past"
+) =>
+  defineValidator<Date | string>(
+    errorCode,
+    (arg) => {
+      const now = new Date();
+      const threshold =
+        granularity === "day" ? truncateDateTo(now, "day") : now;
+
+      return !(toDate(arg).getTime() >= threshold.getTime());
+    },
+    { granularity }
+  );
+
+/**
+ * @returns validator that fails when the day of the week (UTC) of the date arg is not one of {@link days}
+ * where 0 is Sunday. Defaults to Monday through Friday
+ */
+export const weekday = (
+  days: readonly number[] = [1, 2, 3, 4, 5],
+  errorCode = "weekday"
+) =>
+  defineValidator<Date | string>(
+    errorCode,
+    (arg) => !days.includes(toDate(arg).getUTCDay()),
+    { days: days.join(",") }
+  );
+
+/**
+ * @returns object validator that fails when the time between the dates at {@link startKey} and {@link endKey}
+ * exceeds {@link duration}. The error is reported at {@link endKey}. Passes if either date is missing
+ *
+ * @example
+ * ```
+ * validate: {
+ *   period: validateObject(maxSpan("startDate", "endDate", { days: 30 })),
+ * }
+ * ```
+ */
+export function maxSpan<StartKey extends string, EndKey extends string>(
+  startKey: StartKey,
+  endKey: EndKey,
+  duration: Duration,
+  errorCode = "max-span"
+): ObjectValidator<{
+  [key in StartKey | EndKey]?: MaybeNullable<Date | string>;
+}> {
+  const maxSpanMs = durationToMilliseconds(duration);
+
+  return (obj) => {
+    const start = obj[startKey];
+    const end = obj[endKey];
+
+    if (
+      start === null ||
+      start === undefined ||
+      end === null ||
+      end === undefined
+    ) {
+      return undefined;
+    }
+
+    if (toDate(end).getTime() - toDate(start).getTime() > maxSpanMs) {
+      return {
+        [endKey]: [errorCode, { start: startKey, maxSpanMs }],
+      } as ObjectValidationResult<typeof obj>;
+    }
+
+    return undefined;
+  };
+}
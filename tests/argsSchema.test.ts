@@ -0,0 +1,86 @@
+import { createArgsSchema, each, when } from "../src";
+import { lowercase, trim } from "../src/transformers";
+import { email, maxSize, minSize } from "../src/validators";
+
+interface SignUpArgs {
+  email: string;
+  password: string;
+  tags?: string[] | null;
+  referrer?: { code?: string | null } | null;
+}
+
+const signUpSchema = createArgsSchema<SignUpArgs, { maxTags: number }>({
+  transform: { email: [trim, lowercase], tags: each(trim) },
+  validate: (_, ctx) => ({
+    email: email(),
+    password: minSize(8),
+    tags: maxSize(ctx.maxTags),
+    referrer: { code: minSize(4) },
+  }),
+});
+
+test("parse transforms then validates args", async () => {
+  const args = { email: "  Ahmed@Example.com ", password: "12345678" };
+
+  expect(await signUpSchema.parse(args, { maxTags: 2 })).toEqual({
+    ok: true,
+    value: { email: "ahmed@example.com", password: "12345678" },
+  });
+  // Args are not mutated
+  expect(args.email).toBe("  Ahmed@Example.com ");
+
+  expect(
+    await signUpSchema.parse(
+      {
+        email: "ahmed",
+        password: "1234",
+        tags: [" a", "b", "c"],
+        referrer: { code: "abc" },
+      },
+      { maxTags: 2 }
+    )
+  ).toEqual({
+    ok: false,
+    errors: {
+      email: ["email", null],
+      password: ["min-size", { n: 8 }],
+      tags: ["max-size", { n: 2 }],
+      referrer: { code: ["min-size", { n: 4 }] },
+    },
+  });
+});
+
+test("parse is synchronous when all rules are synchronous", () => {
+  const schema = createArgsSchema<{ page: number }>({
+    validate: {
+      page: when(
+        (args) => args.page !== 0,
+        (page: number) => (page > 0 ? undefined : ["positive", null])
+      ),
+    },
+  });
+
+  expect(schema.parse({ page: 0 })).toEqual({ ok: true, value: { page: 0 } });
+  expect(schema.parse({ page: -1 })).toEqual({
+    ok: false,
+    errors: { page: ["positive", null] },
+  });
+});
+
+test("abortEarly and messages", async () => {
+  const schema = createArgsSchema<{ a: string; b: string }, { locale: string }>(
+    {
+      validate: { a: minSize(2), b: minSize(2) },
+      abortEarly: true,
+      messages: {
+        catalogs: { fr: { "min-size": "trop court" } },
+        getLocale: (ctx) => ctx.locale,
+      },
+    }
+  );
+
+  expect(await schema.parse({ a: "", b: "" }, { locale: "fr" })).toEqual({
+    ok: false,
+    errors: { a: ["min-size", { n: 2 }, "trop court"] },
+  });
+});
@@ -0,0 +1,144 @@
+import { execFileSync } from "child_process";
+import { mkdirSync, mkdtempSync, readFileSync, rmdirSync } from "fs";
+import { join } from "path";
+import { makeSchema, mutationField } from "nexus";
+import { ModuleKind, transpileModule } from "typescript";
+
+const rootDir = join(__dirname, "..");
+
+// Built inside node_modules so that the dependencies of the package are resolved from the built output
+const cacheDir = join(rootDir, "node_modules", ".cache");
+mkdirSync(cacheDir, { recursive: true });
+const outDir = mkdtempSync(join(cacheDir, "nexus-args-validator-build-"));
+
+let pkg: typeof import("../src");
+let validators: typeof import("../src/validators");
+
+beforeAll(() => {
+  // Same entries as the build script
+  const { scripts } = JSON.parse(
+    readFileSync(join(rootDir, "package.json"), "utf8")
+  );
+  const entries: string[] = scripts.build.match(/src\/\S+\.ts/g);
+
+  execFileSync(
+    join(rootDir, "node_modules", ".bin", "tsup-node"),
+    [...entries, "-d", outDir],
+    { cwd: rootDir, stdio: "ignore" }
+  );
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  pkg = require(join(outDir, "index.js"));
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  validators = require(join(outDir, "validators.js"));
+}, 60000);
+
+afterAll(() => {
+  rmdirSync(outDir, { recursive: true });
+});
+
+test("validators of the validators bundle are known to the index bundle", () => {
+  const schema = makeSchema({
+    types: [
+      mutationField("rename", {
+        type: "String",
+        args: { a: "String" },
+        resolve: () => "ok",
+        ...({ validate: { a: validators.maxSize(3) } } as Record<
+          string,
+          unknown
+        >),
+      }),
+    ],
+    plugins: [pkg.argsValidatorPlugin()],
+    outputs: false,
+  });
+
+  expect(pkg.getValidationMetadata(schema)).toEqual({
+    "Mutation.rename": { a: [{ code: "max-size", extras: { n: 3 } }] },
+  });
+});
+
+test("presence validators of the validators bundle run for missing input objects", () => {
+  const { findErrors, validateObject } = pkg;
+  const { atLeastOneOf, exactlyOneOf, required } = validators;
+
+  expect(findErrors({}, { profile: { bio: required() } }, false)).toEqual({
+    profile: { bio: ["required", null] },
+  });
+
+  expect(
+    findErrors(
+      { address: null },
+      {
+        address: validateObject(atLeastOneOf(["street", "poBox"])),
+        contact: validateObject(exactlyOneOf(["email", "phone"])),
+      } as any,
+      false
+    )
+  ).toEqual({
+    address: {
+      street: ["at-least-one-of", { keys: "street,poBox" }],
+      poBox: ["at-least-one-of", { keys: "street,poBox" }],
+    },
+    contact: {
+      email: ["exactly-one-of", { keys: "email,phone" }],
+      phone: ["exactly-one-of", { keys: "email,phone" }],
+    },
+  });
+});
+
+test("client validators run the built-in validators of the validators bundle", () => {
+  const schema = makeSchema({
+    types: [
+      mutationField("rename", {
+        type: "String",
+        args: { a: "String" },
+        resolve: () => "ok",
+        ...({
+          validate: { a: [validators.maxSize(3), validators.email()] },
+        } as Record<string, unknown>),
+      }),
+    ],
+    plugins: [pkg.argsValidatorPlugin()],
+    outputs: false,
+  });
+
+  const { outputText } = transpileModule(pkg.generateClientValidators(schema), {
+    compilerOptions: { module: ModuleKind.CommonJS },
+  });
+  const clientValidators = { exports: {} as Record<string, any> };
+  new Function("module", "exports", outputText)(
+    clientValidators,
+    clientValidators.exports
+  );
+
+  expect(clientValidators.exports.SERVER_ONLY_RULES).toEqual({});
+  expect(clientValidators.exports.validateRename({ a: "abcd" })).toEqual({
+    a: ["max-size", { n: 3 }],
+  });
+});
+
+// The time zone can't be changed within the test environment, so the built output runs in another process
+test("date-times without an offset are in UTC whatever the time zone of the server", () => {
+  const script = `
+    const { startOfDay } = require(${JSON.stringify(
+      join(outDir, "transformers.js")
+    )});
+    const { after } = require(${JSON.stringify(join(outDir, "validators.js"))});
+    console.log(JSON.stringify([
+      startOfDay("2024-05-01T02:00:00"),
+      after("2024-05-01T00:00:00Z")("2024-05-01T02:00:00"),
+    ]));
+  `;
+
+  for (const timeZone of ["UTC", "Asia/Tokyo", "America/New_York"]) {
+    const output = execFileSync(process.execPath, ["-e", script], {
+      cwd: rootDir,
+      env: { ...process.env, TZ: timeZone },
+      encoding: "utf8",
+    });
+
+    expect(JSON.parse(output)).toEqual(["2024-05-01T00:00:00.000Z", null]);
+  }
+});
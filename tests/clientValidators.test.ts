@@ -0,0 +1,293 @@
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { inputObjectType, makeSchema, mutationField, nonNull } from "nexus";
+import { ModuleKind, transpileModule } from "typescript";
+
+import { getStaticValidatorTree } from "../src/metadata";
+import {
+  argsValidatorPlugin,
+  each,
+  findErrors,
+  generateClientValidators,
+  validateObject,
+  when,
+} from "../src";
+import {
+  defineValidator,
+  email,
+  ipAddress,
+  maxSize,
+  min,
+  oneOf,
+  pattern,
+  range,
+  rangeSize,
+  url,
+  uuid,
+} from "../src/validators";
+
+const outputPath = join(
+  mkdtempSync(join(tmpdir(), "client-validators-")),
+  "validators.ts"
+);
+
+const isReserved = defineValidator<string>(
+  "reserved",
+  (arg) => arg === "admin"
+);
+
+const schema = makeSchema({
+  types: [
+    inputObjectType({
+      name: "ProfileInput",
+      definition(t) {
+        t.string("bio", { validate: maxSize(10) } as any);
+      },
+    }),
+    inputObjectType({
+      name: "UserInput",
+      definition(t) {
+        t.nonNull.string("username", {
+          validate: [rangeSize(3, 8), isReserved],
+        } as any);
+        t.int("age");
+        t.list.nonNull.string("tags", {
+          constraints: { length: { min: 1 } },
+        } as any);
+        t.list.nonNull.field("profiles", { type: "ProfileInput" });
+      },
+    }),
+    mutationField("createUser", {
+      type: "String",
+      args: { user: nonNull("UserInput") },
+      resolve: () => "ok",
+      ...({
+        validate: {
+          user: {
+            age: range(18, 99),
+            tags: each([maxSize(5), pattern(/^[a-z]+$/i)]),
+          },
+        },
+      } as Record<string, unknown>),
+    }),
+    mutationField("updateUser", {
+      type: "String",
+      args: { user: nonNull("UserInput") },
+      resolve: () => "ok",
+      ...({
+        validate: () => ({ user: validateObject(() => undefined) }),
+      } as Record<string, unknown>),
+    }),
+  ],
+  plugins: [argsValidatorPlugin({ clientValidators: { outputPath } })],
+  outputs: false,
+});
+
+function loadModule(source: string): Record<string, any> {
+  const { outputText } = transpileModule(source, {
+    compilerOptions: { module: ModuleKind.CommonJS },
+  });
+  const module = { exports: {} as Record<string, any> };
+  new Function("module", "exports", outputText)(module, module.exports);
+  return module.exports;
+}
+
+describe("generateClientValidators", () => {
+  const clientValidators = loadModule(generateClientValidators(schema));
+
+  const serverTree = getStaticValidatorTree(
+    schema.getMutationType()!.getFields().createUser
+  );
+
+  // Custom validators pass for these args, so the server reports only errors of built-in validators
+  it.each([
+    { user: { username: "john", age: 30, tags: ["a"] } },
+    { user: { username: "jo", age: 10, tags: [] } },
+    { user: { username: "jo", tags: ["abcdef", "a1", "ok"] } },
+    {
+      user: {
+        username: "johnny-boy",
+        profiles: [null, { bio: "a".repeat(11) }],
+      },
+    },
+  ])("produces the same errors tree as the server for %j", async (args) => {
+    for (const abortEarly of [false, true]) {
+      expect(clientValidators.validateCreateUser(args, abortEarly)).toEqual(
+        await findErrors(args, serverTree as any, abortEarly)
+      );
+    }
+  });
+
+  it("lists rules that only run on the server", () => {
+    expect(clientValidators.SERVER_ONLY_RULES).toEqual({
+      createUser: ["user.username"],
+      updateUser: ["", "user.username"],
+    });
+
+    // Only rules declared on input types are known for updateUser
+    expect(
+      clientValidators.validateUpdateUser({
+        user: { username: "a", age: 5 },
+      })
+    ).toEqual({
+      user: { username: ["range-size", { lowerBound: 3, upperBound: 8 }] },
+    });
+  });
+
+  it("is written by the plugin once the schema is built", () => {
+    expect(readFileSync(outputPath, "utf8")).toBe(
+      generateClientValidators(schema)
+    );
+  });
+});
+
+it("client rules are not generated for custom validators named like built-ins", () => {
+  const max = defineValidator<number>("max", (arg) => arg > 1);
+
+  const customSchema = makeSchema({
+    types: [
+      mutationField("setCount", {
+        type: "String",
+        args: { count: "Int" },
+        resolve: () => "ok",
+        ...({ validate: { count: [max, min(0)] } } as Record<string, unknown>),
+      }),
+    ],
+    outputs: false,
+  });
+
+  const clientValidators = loadModule(generateClientValidators(customSchema));
+
+  expect(clientValidators.SERVER_ONLY_RULES).toEqual({ setCount: ["count"] });
+  expect(clientValidators.validateSetCount({ count: 5 })).toBeNull();
+  expect(clientValidators.validateSetCount({ count: -1 })).toEqual({
+    count: ["min", { n: 0 }],
+  });
+});
+
+it("conditional validators only run on the server", () => {
+  const conditionalSchema = makeSchema({
+    types: [
+      mutationField("setCount", {
+        type: "String",
+        args: { count: "Int", limit: "Int" },
+        resolve: () => "ok",
+        ...({
+          validate: {
+            count: when((args: any) => args.limit !== null, min(0)),
+            limit: min(1),
+          },
+        } as Record<string, unknown>),
+      }),
+    ],
+    outputs: false,
+  });
+
+  const clientValidators = loadModule(
+    generateClientValidators(conditionalSchema)
+  );
+
+  expect(clientValidators.SERVER_ONLY_RULES).toEqual({ setCount: ["count"] });
+  expect(clientValidators.validateSetCount({ count: -1, limit: 0 })).toEqual({
+    limit: ["min", { n: 1 }],
+  });
+});
+
+it("runs string validators on the client", async () => {
+  const tree = {
+    email: email(),
+    website: url(["https"]),
+    id: uuid(4),
+    role: oneOf(["admin", "member"]),
+    ip: ipAddress(),
+  };
+
+  const stringsSchema = makeSchema({
+    types: [
+      mutationField("createUser", {
+        type: "String",
+        args: {
+          email: "String",
+          website: "String",
+          id: "String",
+          role: "String",
+          ip: "String",
+        },
+        resolve: () => "ok",
+        ...({ validate: tree } as Record<string, unknown>),
+      }),
+    ],
+    outputs: false,
+  });
+
+  const clientValidators = loadModule(generateClientValidators(stringsSchema));
+
+  expect(clientValidators.SERVER_ONLY_RULES).toEqual({});
+
+  for (const args of [
+    {
+      email: "a@b.co",
+      website: "https://a.co",
+      id: "9b2f4a1e-3c5d-4e6f-8a7b-1c2d3e4f5a6b",
+      role: "admin",
+      ip: "10.0.0.1",
+    },
+    {
+      email: "a@b",
+      website: "http://a.co",
+      id: "9b2f4a1e",
+      role: "guest",
+      ip: "1.2.3",
+    },
+  ]) {
+    expect(clientValidators.validateCreateUser(args)).toEqual(
+      await findErrors(args, tree as any, false)
+    );
+  }
+});
+
+it("recursive input types reference the rules of their first occurrence", async () => {
+  const recursiveSchema = makeSchema({
+    types: [
+      inputObjectType({
+        name: "Filter",
+        definition(t) {
+          t.string("name", { validate: maxSize(3) } as any);
+          t.field("not", { type: "Filter" });
+          t.list.nonNull.field("and", { type: "Filter" });
+        },
+      }),
+      mutationField("deleteUsers", {
+        type: "String",
+        args: { filter: "Filter" },
+        resolve: () => "ok",
+      }),
+    ],
+    plugins: [argsValidatorPlugin()],
+    outputs: false,
+  });
+
+  const clientValidators = loadModule(
+    generateClientValidators(recursiveSchema)
+  );
+  const serverTree = getStaticValidatorTree(
+    recursiveSchema.getMutationType()!.getFields().deleteUsers
+  );
+
+  expect(clientValidators.SERVER_ONLY_RULES).toEqual({});
+
+  for (const args of [
+    { filter: { name: "abc", not: { name: "abc" } } },
+    {
+      filter: {
+        name: "abcd",
+        not: { and: [{ name: "ab" }, { not: { name: "abcd" } }] },
+      },
+    },
+  ]) {
+    expect(clientValidators.validateDeleteUsers(args)).toEqual(
+      await findErrors(args, serverTree as any, false)
+    );
+  }
+});
@@ -0,0 +1,121 @@
+import { buildSchema, graphql } from "graphql";
+import {
+  inputObjectType,
+  intArg,
+  list,
+  makeSchema,
+  nonNull,
+  queryField,
+  stringArg,
+} from "nexus";
+
+import {
+  argsValidatorPlugin,
+  CONSTRAINT_DIRECTIVES_SDL,
+  printSchemaWithConstraints,
+} from "../src";
+import { constraintsToValidators, getConstraints } from "../src/constraints";
+
+const schema = makeSchema({
+  types: [
+    inputObjectType({
+      name: "UserInput",
+      definition(t) {
+        t.nonNull.string("username", {
+          constraints: { length: { min: 3, max: 20 } },
+        } as any);
+        t.list.nonNull.string("teamsIds", {
+          constraints: { length: { max: 2 } },
+        } as any);
+      },
+    }),
+    queryField("echo", {
+      type: "String",
+      args: {
+        user: nonNull("UserInput"),
+        age: intArg({ constraints: { range: { min: 18 } } } as any),
+        code: stringArg({
+          constraints: { pattern: { regex: "^[a-z]+$" } },
+        } as any),
+      },
+      resolve: () => "ok",
+    }),
+  ],
+  plugins: [argsValidatorPlugin()],
+  outputs: false,
+});
+
+test("constraints are compiled to validators", async () => {
+  const source = `
+    query ($user: UserInput!, $age: Int, $code: String) {
+      echo(user: $user, age: $age, code: $code)
+    }
+  `;
+
+  expect(
+    await graphql({
+      schema,
+      source,
+      variableValues: { user: { username: "ahmed" }, age: 20, code: "abc" },
+    })
+  ).toEqual({ data: { echo: "ok" } });
+
+  const { errors } = await graphql({
+    schema,
+    source,
+    variableValues: {
+      user: { username: "ah", teamsIds: ["1", "2", "3"] },
+      age: 15,
+      code: "ABC",
+    },
+  });
+
+  expect(errors?.[0].extensions?.validationErrors).toStrictEqual({
+    user: {
+      username: ["range-size", { lowerBound: 3, upperBound: 20 }],
+      teamsIds: ["max-size", { n: 2 }],
+    },
+    age: ["min", { n: 18 }],
+    code: ["pattern", { regexp: "^[a-z]+$" }],
+  });
+});
+
+test("printSchemaWithConstraints", () => {
+  const printedSchema = printSchemaWithConstraints(schema);
+
+  expect(printedSchema).toContain(
+    "directive @length(min: Int, max: Int) on ARGUMENT_DEFINITION | INPUT_FIELD_DEFINITION"
+  );
+  expect(printedSchema).toContain(
+    'echo(user: UserInput!, age: Int @range(min: 18), code: String @pattern(regex: "^[a-z]+$")): String'
+  );
+  expect(printedSchema).toContain("username: String! @length(min: 3, max: 20)");
+  expect(printedSchema).toContain("teamsIds: [String!] @length(max: 2)");
+});
+
+test("constraints declared in SDL", () => {
+  const sdlSchema = buildSchema(`
+    ${CONSTRAINT_DIRECTIVES_SDL}
+
+    type Query {
+      echo(name: String @length(min: 3) @pattern(regex: "^a")): String
+    }
+  `);
+
+  const nameArg = sdlSchema.getQueryType()!.getFields().echo.args[0];
+
+  expect(getConstraints(nameArg)).toStrictEqual({
+    length: { min: 3 },
+    pattern: { regex: "^a" },
+  });
+
+  const [minSizeValidator, patternValidator] = constraintsToValidators(
+    getConstraints(nameArg)
+  );
+  expect(minSizeValidator("ab")).toStrictEqual(["min-size", { n: 3 }]);
+  expect(patternValidator("ba")).toStrictEqual(["pattern", { regexp: "^a" }]);
+
+  expect(printSchemaWithConstraints(sdlSchema)).toContain(
+    'echo(name: String @length(min: 3) @pattern(regex: "^a")): String'
+  );
+});
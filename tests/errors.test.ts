@@ -0,0 +1,156 @@
+import { graphql } from "graphql";
+import {
+  idArg,
+  list,
+  makeSchema,
+  mutationField,
+  nonNull,
+  objectType,
+  stringArg,
+  unionType,
+} from "nexus";
+
+import {
+  ARGS_VALIDATION_ERROR_CODE,
+  ARGS_VALIDATION_FAILED_TYPE_NAME,
+  ArgsValidationError,
+  argsValidationFailedTypes,
+  argsValidatorPlugin,
+  each,
+  ErrorsTree,
+  flattenErrorsTree,
+} from "../src";
+
+const errorsTree: ErrorsTree = {
+  userCreateInput: {
+    username: ["not-unique", null],
+    firstName: [
+      ["min-size", { n: 8 }],
+      ["pattern", { regexp: "^[a-z]+$" }],
+    ],
+    profiles: {
+      2: { bio: ["max-size", { n: 200 }] },
+    },
+  },
+};
+
+test("flattenErrorsTree", () => {
+  expect(flattenErrorsTree(errorsTree)).toStrictEqual([
+    { path: ["userCreateInput", "username"], code: "not-unique", extras: null },
+    {
+      path: ["userCreateInput", "firstName"],
+      code: "min-size",
+      extras: { n: 8 },
+    },
+    {
+      path: ["userCreateInput", "firstName"],
+      code: "pattern",
+      extras: { regexp: "^[a-z]+$" },
+    },
+    {
+      path: ["userCreateInput", "profiles", 2, "bio"],
+      code: "max-size",
+      extras: { n: 200 },
+    },
+  ]);
+});
+
+test("ArgsValidationError", () => {
+  const error = new ArgsValidationError(errorsTree);
+
+  expect(error.message).toBe("One or more arguments failed validation");
+  expect(error.errorsTree).toBe(errorsTree);
+  expect(error.extensions).toStrictEqual({
+    code: ARGS_VALIDATION_ERROR_CODE,
+    validationErrors: errorsTree,
+  });
+
+  expect(
+    new ArgsValidationError(errorsTree, { message: "Invalid", flatten: true })
+      .extensions
+  ).toStrictEqual({
+    code: ARGS_VALIDATION_ERROR_CODE,
+    validationErrors: flattenErrorsTree(errorsTree),
+  });
+});
+
+test("argsValidationFailedTypes", async () => {
+  const schema = makeSchema({
+    types: [
+      argsValidationFailedTypes(),
+      objectType({
+        name: "User",
+        definition(t) {
+          t.nonNull.string("username");
+        },
+      }),
+      unionType({
+        name: "CreateUserPayload",
+        definition(t) {
+          t.members("User", ARGS_VALIDATION_FAILED_TYPE_NAME);
+        },
+        resolveType: (value: any) => value.__typename || "User",
+      }),
+      mutationField("createUser", {
+        type: "CreateUserPayload",
+        args: { username: nonNull(stringArg()), teamsIds: list(idArg()) },
+        resolve: (_, args) => ({ username: args.username }),
+        ...({
+          validate: () => ({
+            username: (arg: string) =>
+              arg.length < 3 ? ["min-size", { n: 3 }] : undefined,
+            teamsIds: each((arg: string) =>
+              arg === "" ? ["non-empty", null] : undefined
+            ),
+          }),
+        } as Record<string, unknown>),
+      }),
+    ],
+    plugins: [argsValidatorPlugin()],
+    outputs: false,
+  });
+
+  const source = `
+    mutation ($username: String!, $teamsIds: [ID]) {
+      createUser(username: $username, teamsIds: $teamsIds) {
+        __typename
+        ... on User {
+          username
+        }
+        ... on ArgsValidationFailed {
+          message
+          errors {
+            path
+            code
+            extras
+          }
+        }
+      }
+    }
+  `;
+
+  expect(
+    await graphql({ schema, source, variableValues: { username: "ahmed" } })
+  ).toEqual({
+    data: { createUser: { __typename: "User", username: "ahmed" } },
+  });
+
+  expect(
+    await graphql({
+      schema,
+      source,
+      variableValues: { username: "ah", teamsIds: ["1", ""] },
+    })
+  ).toEqual({
+    data: {
+      createUser: {
+        __typename: ARGS_VALIDATION_FAILED_TYPE_NAME,
+        message: "One or more arguments failed validation",
+        errors: [
+          { path: ["username"], code: "min-size", extras: { n: 3 } },
+          { path: ["teamsIds", "1"], code: "non-empty", extras: null },
+        ],
+      },
+    },
+  });
+});
@@ -1,4 +1,32 @@
-import { applyTransforms, findErrors, Transformer, Validator } from "../src";
+import { graphql, GraphQLError } from "graphql";
+import {
+  floatArg,
+  inputObjectType,
+  list,
+  makeSchema,
+  nonNull,
+  queryField,
+  stringArg,
+} from "nexus";
+
+import {
+  applyTransforms,
+  argsValidatorPlugin,
+  ArgsValidatorPluginConfig,
+  each,
+  ErrorsTree,
+  extend,
+  findErrors,
+  ResultValidationErrorInfo,
+  Transformer,
+  unless,
+  validateObject,
+  ValidationErrorInfo,
+  ValidationResultError,
+  Validator,
+  when,
+} from "../src";
+import { atLeastOneOf, maxSize, required } from "../src/validators";
 
 const args1 = {
   firstName: "ahmed",
@@ -84,3 +112,962 @@ test("applyTransforms", () => {
     profile: { bio: "new bio" },
   });
 });
+
+describe("each", () => {
+  const listArgs = {
+    teamsIds: ["a", "", "c"],
+    profiles: [{ bio: "short" }, { bio: null }, { bio: "way too long bio" }],
+  };
+
+  const listValidatorTree = {
+    teamsIds: each<Validator<string>>((arg) =>
+      arg.length === 0 ? ["empty", null] : undefined
+    ),
+    profiles: each({
+      bio: (arg: string | null) =>
+        arg && arg.length > 10 ? ["too-long", null] : undefined,
+    }),
+  };
+
+  test("findErrors", () => {
+    expect(findErrors(listArgs, listValidatorTree as any, false)).toStrictEqual(
+      {
+        teamsIds: { 1: ["empty", null] },
+        profiles: { 2: { bio: ["too-long", null] } },
+      }
+    );
+
+    expect(findErrors(listArgs, listValidatorTree as any, true)).toStrictEqual({
+      teamsIds: { 1: ["empty", null] },
+    });
+
+    expect(
+      findErrors({ teamsIds: null }, listValidatorTree as any, false)
+    ).toBeNull();
+  });
+
+  test("applyTransforms", () => {
+    return expect(
+      applyTransforms(
+        {
+          teamsIds: [" a", "b "],
+          profiles: [{ bio: "hi" }],
+        },
+        {
+          teamsIds: each((arg: string) => Promise.resolve(arg.trim())),
+          profiles: each({ bio: (arg: string) => arg + "!" }),
+        } as any
+      )
+    ).resolves.toStrictEqual({
+      teamsIds: ["a", "b"],
+      profiles: [{ bio: "hi!" }],
+    });
+  });
+});
+
+describe("argsValidatorPlugin", () => {
+  const ProfileInput = inputObjectType({
+    name: "ProfileInput",
+    definition(t) {
+      t.string("bio", {
+        transform: (arg: string | null) => arg && arg.trim(),
+        validate: (arg: string | null) =>
+          arg && arg.length > 10 ? ["too-long", null] : undefined,
+      } as any);
+    },
+  });
+
+  const UserInput = inputObjectType({
+    name: "UserInput",
+    definition(t) {
+      t.nonNull.string("username");
+      t.list.nonNull.field("profiles", { type: "ProfileInput" });
+    },
+    ...({
+      validate: {
+        username: (arg: string) =>
+          arg === "unknown" ? ["not-allowed", null] : undefined,
+      },
+    } as Record<string, unknown>),
+  });
+
+  function createSchema(
+    fieldConfig: Record<string, unknown>,
+    pluginConfig: ArgsValidatorPluginConfig = {
+      onValidationError(errorsTree) {
+        throw new GraphQLError("validation-failed", {
+          extensions: { errorsTree },
+        } as any);
+      },
+    }
+  ) {
+    return makeSchema({
+      types: [
+        ProfileInput,
+        UserInput,
+        queryField("echo", {
+          type: "String",
+          args: { user: nonNull("UserInput") },
+          resolve: (_, args) => JSON.stringify(args.user),
+          ...fieldConfig,
+        }),
+      ],
+      plugins: [argsValidatorPlugin(pluginConfig)],
+      outputs: false,
+    });
+  }
+
+  const query = `
+    query ($user: UserInput!) {
+      echo(user: $user)
+    }
+  `;
+
+  test("applies rules declared on input types", async () => {
+    const schema = createSchema({});
+
+    expect(
+      await graphql({
+        schema,
+        source: query,
+        variableValues: {
+          user: { username: "ahmed", profiles: [{ bio: " Hi there " }] },
+        },
+      })
+    ).toEqual({
+      data: {
+        echo: JSON.stringify({
+          username: "ahmed",
+          profiles: [{ bio: "Hi there" }],
+        }),
+      },
+    });
+
+    const { errors } = await graphql({
+      schema,
+      source: query,
+      variableValues: {
+        user: {
+          username: "unknown",
+          profiles: [{ bio: "short" }, { bio: "way too long bio" }],
+        },
+      },
+    });
+
+    expect(errors?.[0].extensions).toStrictEqual({
+      errorsTree: {
+        user: {
+          username: ["not-allowed", null],
+          profiles: { 1: { bio: ["too-long", null] } },
+        },
+      },
+    });
+  });
+
+  test("applies object validators declared on input types", async () => {
+    const endAfterStart = (range: { start: number; end: number }) =>
+      range.end <= range.start
+        ? { end: ["before-start", null] as ValidationResultError }
+        : undefined;
+
+    const schema = makeSchema({
+      types: [
+        inputObjectType({
+          name: "RangeInput",
+          definition(t) {
+            t.nonNull.int("start");
+            t.nonNull.int("end");
+          },
+          ...({ validate: validateObject(endAfterStart) } as Record<
+            string,
+            unknown
+          >),
+        }),
+        inputObjectType({
+          name: "RangeOrDayInput",
+          definition(t) {
+            t.int("start");
+            t.int("end");
+            t.int("day");
+          },
+          ...({
+            oneOf: true,
+            validate: validateObject((range: { day?: number | null }) =>
+              range.day === 0 ? { day: ["zero", null] } : undefined
+            ),
+          } as Record<string, unknown>),
+        }),
+        queryField("events", {
+          type: "String",
+          args: { range: "RangeInput", rangeOrDay: "RangeOrDayInput" },
+          resolve: () => "ok",
+        }),
+      ],
+      plugins: [argsValidatorPlugin()],
+      outputs: false,
+    });
+
+    expect(
+      await graphql({
+        schema,
+        source: `{ events(range: { start: 1, end: 5 }, rangeOrDay: { day: 1 }) }`,
+      })
+    ).toEqual({ data: { events: "ok" } });
+
+    const { errors } = await graphql({
+      schema,
+      source: `{ events(range: { start: 5, end: 1 }, rangeOrDay: { day: 0 }) }`,
+    });
+
+    // The object validator of a "oneOf" input object runs along with the "oneOf" validator
+    expect(errors?.[0].extensions?.validationErrors).toEqual({
+      range: { end: ["before-start", null] },
+      rangeOrDay: { day: ["zero", null] },
+    });
+  });
+
+  test("field-level trees override and extend input type rules", async () => {
+    const schema = createSchema({
+      validate: () => ({
+        user: {
+          username: (arg: string) =>
+            arg.length < 3 ? ["too-short", null] : undefined,
+        },
+      }),
+    });
+
+    const { errors } = await graphql({
+      schema,
+      source: query,
+      variableValues: {
+        user: { username: "unknown", profiles: [{ bio: "way too long bio" }] },
+      },
+    });
+
+    expect(errors?.[0].extensions).toStrictEqual({
+      errorsTree: {
+        user: { profiles: { 0: { bio: ["too-long", null] } } },
+      },
+    });
+
+    const extendingSchema = createSchema({
+      validate: {
+        user: {
+          username: extend((arg: string) =>
+            arg.length < 3 ? ["too-short", null] : undefined
+          ),
+          profiles: each({
+            bio: extend((arg: string | null) =>
+              arg === "" ? ["empty", null] : undefined
+            ),
+          }),
+        },
+      },
+    });
+
+    for (const [user, errorsTree] of [
+      [
+        { username: "unknown", profiles: [{ bio: "way too long bio" }] },
+        {
+          user: {
+            username: ["not-allowed", null],
+            profiles: { 0: { bio: ["too-long", null] } },
+          },
+        },
+      ],
+      [
+        { username: "ab", profiles: [{ bio: "" }] },
+        {
+          user: {
+            username: ["too-short", null],
+            profiles: { 0: { bio: ["empty", null] } },
+          },
+        },
+      ],
+    ]) {
+      const { errors: extendingErrors } = await graphql({
+        schema: extendingSchema,
+        source: query,
+        variableValues: { user },
+      });
+
+      expect(extendingErrors?.[0].extensions).toStrictEqual({ errorsTree });
+    }
+  });
+
+  test("static trees", async () => {
+    const schema = createSchema({
+      transform: { user: { username: (arg: string) => arg.toLowerCase() } },
+      validate: {
+        user: {
+          username: (arg: string) =>
+            arg === "ahmed" ? ["not-unique", null] : undefined,
+        },
+      },
+    });
+
+    const { errors } = await graphql({
+      schema,
+      source: query,
+      variableValues: { user: { username: "AHMED" } },
+    });
+
+    expect(errors?.[0].extensions).toStrictEqual({
+      errorsTree: { user: { username: ["not-unique", null] } },
+    });
+  });
+
+  test("onValidationError result is used as the field result", async () => {
+    const onValidationError = jest.fn(
+      (errorsTree: ErrorsTree, { args, originalArgs }: ValidationErrorInfo) =>
+        JSON.stringify({ errorsTree, args, originalArgs })
+    );
+
+    const schema = createSchema({}, { onValidationError });
+
+    const user = { username: "unknown", profiles: [{ bio: " Hi " }] };
+
+    expect(
+      await graphql({ schema, source: query, variableValues: { user } })
+    ).toEqual({
+      data: {
+        echo: JSON.stringify({
+          errorsTree: { user: { username: ["not-allowed", null] } },
+          args: { user: { username: "unknown", profiles: [{ bio: "Hi" }] } },
+          originalArgs: { user },
+        }),
+      },
+    });
+
+    expect(onValidationError).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("validateObject", () => {
+  const eventArgs = {
+    title: "",
+    startDate: 5,
+    endDate: 3,
+    organizer: { password: "secret", confirmPassword: "secrets" },
+  };
+
+  const eventValidatorTree = validateObject(
+    (args: typeof eventArgs) =>
+      args.endDate <= args.startDate
+        ? { endDate: ["after-start-date", null], title: ["not-allowed", null] }
+        : undefined,
+    {
+      title: (arg: string) => (arg.length === 0 ? ["empty", null] : undefined),
+      organizer: validateObject(
+        (arg: typeof eventArgs["organizer"]) =>
+          Promise.resolve(
+            arg.password !== arg.confirmPassword
+              ? { confirmPassword: ["mismatch", null] }
+              : undefined
+          ),
+        {}
+      ),
+    }
+  );
+
+  test("findErrors", async () => {
+    expect(
+      await findErrors(eventArgs, eventValidatorTree as any, false)
+    ).toStrictEqual({
+      title: [
+        ["empty", null],
+        ["not-allowed", null],
+      ],
+      endDate: ["after-start-date", null],
+      organizer: { confirmPassword: ["mismatch", null] },
+    });
+
+    expect(
+      await findErrors(
+        { ...eventArgs, title: "title", endDate: 10 },
+        eventValidatorTree as any,
+        true
+      )
+    ).toStrictEqual({
+      organizer: { confirmPassword: ["mismatch", null] },
+    });
+
+    expect(
+      await findErrors(
+        {
+          ...eventArgs,
+          title: "title",
+          endDate: 10,
+          organizer: { password: "a", confirmPassword: "a" },
+        },
+        eventValidatorTree as any,
+        false
+      )
+    ).toBeNull();
+  });
+});
+
+describe("when", () => {
+  type AccountArgs = {
+    accountType: string;
+    companyName: string;
+    vatNumber: string;
+    members: { role: string; email: string }[];
+  };
+
+  const nonEmpty = (arg: string) =>
+    arg.length === 0 ? ["non-empty", null] : undefined;
+
+  const accountValidatorTree = {
+    companyName: when(
+      (args: AccountArgs) => args.accountType === "BUSINESS",
+      nonEmpty
+    ),
+    vatNumber: unless(
+      (args: AccountArgs) => args.accountType === "BUSINESS",
+      (arg: string) => (arg ? ["not-allowed", null] : undefined),
+      [nonEmpty, (arg: string) => (arg.length > 5 ? ["max", null] : undefined)]
+    ),
+    members: each(
+      when((args: AccountArgs) => args.accountType === "BUSINESS", {
+        email: nonEmpty,
+      })
+    ),
+  };
+
+  test("findErrors", async () => {
+    expect(
+      await findErrors(
+        {
+          accountType: "BUSINESS",
+          companyName: "",
+          vatNumber: "DE1234567",
+          members: [{ role: "admin", email: "" }],
+        },
+        accountValidatorTree as any,
+        false
+      )
+    ).toStrictEqual({
+      companyName: ["non-empty", null],
+      vatNumber: ["max", null],
+      members: { 0: { email: ["non-empty", null] } },
+    });
+
+    expect(
+      await findErrors(
+        {
+          accountType: "PERSONAL",
+          companyName: "",
+          vatNumber: "DE1",
+          members: [{ role: "admin", email: "" }],
+        },
+        accountValidatorTree as any,
+        false
+      )
+    ).toStrictEqual({
+      vatNumber: ["not-allowed", null],
+    });
+  });
+
+  test("the predicate receives the transformed args", async () => {
+    const schema = makeSchema({
+      types: [
+        queryField("account", {
+          type: "String",
+          args: { accountType: "String", companyName: "String" },
+          resolve: () => "ok",
+          ...({
+            transform: {
+              accountType: (arg: string) => arg.toUpperCase(),
+            },
+            validate: {
+              companyName: when(
+                (args: { accountType: string }) =>
+                  args.accountType === "BUSINESS",
+                (arg: string | null) => (!arg ? ["required", null] : undefined)
+              ),
+            },
+          } as Record<string, unknown>),
+        }),
+      ],
+      plugins: [argsValidatorPlugin()],
+      outputs: false,
+    });
+
+    const { errors } = await graphql({
+      schema,
+      source: `{ account(accountType: "business") }`,
+    });
+
+    expect(errors?.[0].extensions?.validationErrors).toEqual({
+      companyName: ["required", null],
+    });
+  });
+
+  test("recursive input types", async () => {
+    const schema = makeSchema({
+      types: [
+        inputObjectType({
+          name: "Filter",
+          definition(t) {
+            t.string("name");
+            t.field("not", { type: "Filter" });
+            t.list.nonNull.field("and", { type: "Filter" });
+          },
+          ...({
+            validate: {
+              name: when(
+                (args: { strict: boolean | null }) => !!args.strict,
+                (arg: string | null) =>
+                  arg === "" ? ["empty", null] : undefined
+              ),
+            },
+          } as Record<string, unknown>),
+        }),
+        queryField("users", {
+          type: "String",
+          args: { filter: "Filter", strict: "Boolean" },
+          resolve: () => "users",
+        }),
+      ],
+      plugins: [argsValidatorPlugin()],
+      outputs: false,
+    });
+
+    expect(await graphql({ schema, source: `{ users }` })).toEqual({
+      data: { users: "users" },
+    });
+
+    const { errors } = await graphql({
+      schema,
+      source: `{
+        users(strict: true, filter: { not: { and: [{ name: "a" }, { name: "" }] } })
+      }`,
+    });
+    expect(errors?.[0].extensions?.validationErrors).toEqual({
+      filter: { not: { and: { 1: { name: ["empty", null] } } } },
+    });
+  });
+});
+
+describe("presence validators", () => {
+  const addressValidatorTree = {
+    name: required(),
+    address: validateObject(atLeastOneOf(["street", "poBox"]), {
+      city: [
+        required(),
+        (arg: string) => (arg.length < 2 ? ["short", null] : undefined),
+      ],
+      zip: (arg: string) => (arg.length !== 5 ? ["zip", null] : undefined),
+      lines: each(required()),
+    }),
+  };
+
+  test("run even when the object containing their arg is missing", async () => {
+    const error = ["at-least-one-of", { keys: "street,poBox" }];
+
+    for (const address of [undefined, null]) {
+      expect(
+        await findErrors({ address }, addressValidatorTree as any, false)
+      ).toStrictEqual({
+        name: ["required", null],
+        address: { city: ["required", null], street: error, poBox: error },
+      });
+    }
+
+    // Input objects nested in a missing input object are missing as well
+    expect(
+      await findErrors(
+        {},
+        { address: { geo: { lat: required() } } } as any,
+        false
+      )
+    ).toBeNull();
+
+    expect(
+      await findErrors(
+        {
+          name: "ahmed",
+          address: { city: "a", zip: "12345", lines: ["a", null] },
+        },
+        addressValidatorTree as any,
+        false
+      )
+    ).toStrictEqual({
+      address: {
+        city: ["short", null],
+        lines: { 1: ["required", null] },
+        street: error,
+        poBox: error,
+      },
+    });
+  });
+});
+
+describe("scalarRules", () => {
+  const trim = (arg: string | null) => arg && arg.trim();
+  const maxLength: Validator<string | null> = (arg) =>
+    arg && arg.length > 5 ? ["too-long", null] : undefined;
+
+  const schema = makeSchema({
+    types: [
+      inputObjectType({
+        name: "PostInput",
+        definition(t) {
+          t.string("title", {
+            validate: (arg: string | null) =>
+              arg === "" ? ["empty", null] : undefined,
+          } as any);
+          t.list.nonNull.string("tags");
+          t.string("body", { skipScalarRules: true } as any);
+        },
+      }),
+      queryField("echo", {
+        type: "String",
+        args: {
+          post: nonNull("PostInput"),
+          score: floatArg(),
+          note: stringArg({ skipScalarRules: true } as any),
+        },
+        resolve: (_, args) => JSON.stringify(args),
+      }),
+      queryField("raw", {
+        type: "String",
+        args: { note: stringArg() },
+        resolve: (_, args) => JSON.stringify(args),
+        ...({ skipScalarRules: true } as Record<string, unknown>),
+      }),
+    ],
+    plugins: [
+      argsValidatorPlugin({
+        scalarRules: {
+          String: { transform: trim, validate: maxLength },
+          Float: {
+            validate: (arg: number | null) =>
+              Number.isNaN(arg) ? ["nan", null] : undefined,
+          },
+        },
+      }),
+    ],
+    outputs: false,
+  });
+
+  test("apply to every arg and input field of the scalar type", async () => {
+    const source = `
+      query ($post: PostInput!, $note: String) {
+        echo(post: $post, note: $note)
+        raw(note: $note)
+      }
+    `;
+
+    expect(
+      await graphql({
+        schema,
+        source,
+        variableValues: {
+          post: { title: " hi ", tags: [" a "], body: " not trimmed " },
+          note: " note ",
+        },
+      })
+    ).toEqual({
+      data: {
+        echo: JSON.stringify({
+          post: { title: "hi", tags: ["a"], body: " not trimmed " },
+          note: " note ",
+        }),
+        raw: JSON.stringify({ note: " note " }),
+      },
+    });
+
+    const { errors } = await graphql({
+      schema,
+      source,
+      variableValues: { post: { title: "  ", tags: ["too long"] } },
+    });
+
+    // Rules of input fields are combined with the scalar rules
+    expect(errors?.[0].extensions?.validationErrors).toEqual({
+      post: { title: ["empty", null], tags: { 0: ["too-long", null] } },
+    });
+  });
+
+  test("apply to list elements along with the rules of the list itself", async () => {
+    const listSchema = makeSchema({
+      types: [
+        queryField("a", {
+          type: "String",
+          args: { tags: list(nonNull(stringArg())) },
+          resolve: () => "ok",
+        }),
+        queryField("b", {
+          type: "String",
+          args: { tags: list(nonNull(stringArg())) },
+          resolve: () => "ok",
+          ...({ validate: { tags: maxSize(1) } } as Record<string, unknown>),
+        }),
+      ],
+      plugins: [
+        argsValidatorPlugin({
+          scalarRules: { String: { validate: maxSize(3) } },
+        }),
+      ],
+      outputs: false,
+    });
+
+    for (const fieldName of ["a", "b"]) {
+      const { errors } = await graphql({
+        schema: listSchema,
+        source: `{ ${fieldName}(tags: ["toolong"]) }`,
+      });
+
+      expect(errors?.[0].extensions?.validationErrors).toEqual({
+        tags: { 0: ["max-size", { n: 3 }] },
+      });
+    }
+
+    const { errors } = await graphql({
+      schema: listSchema,
+      source: `{ b(tags: ["a", "b"]) }`,
+    });
+
+    expect(errors?.[0].extensions?.validationErrors).toEqual({
+      tags: ["max-size", { n: 1 }],
+    });
+  });
+
+  test("are skipped for null and omitted args", async () => {
+    const nonNullSchema = makeSchema({
+      types: [
+        inputObjectType({
+          name: "Filter",
+          definition(t) {
+            t.string("name", {
+              validate: (arg: string | null) =>
+                arg === "" ? ["empty", null] : undefined,
+            } as any);
+            t.field("not", { type: "Filter" });
+          },
+        }),
+        queryField("users", {
+          type: "String",
+          args: { filter: "Filter", note: stringArg() },
+          resolve: (_, args) => JSON.stringify(args),
+        }),
+      ],
+      plugins: [
+        argsValidatorPlugin({
+          scalarRules: {
+            // Neither of them handles null or undefined
+            String: {
+              transform: (arg: string) => arg.trim(),
+              validate: (arg: string) =>
+                arg.length > 5 ? ["too-long", null] : undefined,
+            },
+          },
+        }),
+      ],
+      outputs: false,
+    });
+
+    expect(
+      await graphql({
+        schema: nonNullSchema,
+        source: `{ users(note: null, filter: { not: { name: " a " } }) }`,
+      })
+    ).toEqual({
+      data: {
+        users: JSON.stringify({ filter: { not: { name: "a" } }, note: null }),
+      },
+    });
+
+    const { errors } = await graphql({
+      schema: nonNullSchema,
+      source: `{ users(filter: { name: " ", not: { not: { name: "too long" } } }) }`,
+    });
+
+    expect(errors?.[0].extensions?.validationErrors).toEqual({
+      filter: {
+        name: ["empty", null],
+        not: { not: { name: ["too-long", null] } },
+      },
+    });
+  });
+});
+
+describe("validateResult", () => {
+  const nonNegative: Validator<number | null | undefined> = (arg) =>
+    typeof arg === "number" && arg < 0 ? ["negative", null] : undefined;
+
+  function createSchema(pluginConfig?: ArgsValidatorPluginConfig) {
+    return makeSchema({
+      types: [
+        queryField("balance", {
+          type: "Float",
+          args: { amount: floatArg() },
+          resolve: (_, args) => args.amount,
+          ...({ validateResult: nonNegative } as Record<string, unknown>),
+        }),
+        queryField("account", {
+          type: "String",
+          args: { name: stringArg(), strict: "Boolean" },
+          resolve: (_, args) =>
+            Promise.resolve({ name: args.name, balance: -1 }) as any,
+          ...({
+            validateResult: {
+              name: (arg: string) => (arg === "" ? ["empty", null] : undefined),
+              balance: when(
+                (args: { strict: boolean | null }) => !!args.strict,
+                nonNegative
+              ),
+            },
+          } as Record<string, unknown>),
+        }),
+      ],
+      plugins: [argsValidatorPlugin(pluginConfig)],
+      outputs: false,
+    });
+  }
+
+  test("throws ResultValidationError by default", async () => {
+    const schema = createSchema();
+
+    expect(await graphql({ schema, source: `{ balance(amount: 5) }` })).toEqual(
+      { data: { balance: 5 } }
+    );
+
+    const { errors } = await graphql({
+      schema,
+      source: `{ balance(amount: -5) }`,
+    });
+
+    expect(errors?.[0].extensions).toEqual({
+      code: "RESULT_VALIDATION_FAILED",
+      validationErrors: ["negative", null],
+    });
+  });
+
+  test("onResultValidationError", async () => {
+    const onResultValidationError = jest.fn(
+      (errors: unknown, _errorInfo: ResultValidationErrorInfo) =>
+        (errors as ErrorsTree).name ? "replaced" : undefined
+    );
+    const schema = createSchema({ onResultValidationError });
+
+    await graphql({ schema, source: `{ account(name: "", strict: true) }` });
+
+    expect(onResultValidationError.mock.calls[0][0]).toEqual({
+      name: ["empty", null],
+      balance: ["negative", null],
+    });
+    expect(onResultValidationError.mock.calls[0][1]).toMatchObject({
+      args: { name: "", strict: true },
+      result: { name: "", balance: -1 },
+    });
+
+    expect(
+      await graphql({ schema, source: `{ account(name: "", strict: false) }` })
+    ).toEqual({ data: { account: "replaced" } });
+  });
+
+  test("validateResults: false", async () => {
+    const schema = createSchema({ validateResults: false });
+
+    expect(
+      await graphql({ schema, source: `{ balance(amount: -5) }` })
+    ).toEqual({ data: { balance: -5 } });
+  });
+});
+
+describe("timeouts", () => {
+  const hanging = () => new Promise<never>(() => undefined);
+
+  test("async validators and transformers that don't finish in time", async () => {
+    const schema = makeSchema({
+      types: [
+        queryField("user", {
+          type: "String",
+          args: { username: stringArg(), email: stringArg() },
+          resolve: () => "user",
+          ...({
+            validate: { username: hanging },
+            transform: {
+              email: (arg: string | null) => (arg ? hanging() : arg),
+            },
+          } as Record<string, unknown>),
+        }),
+      ],
+      plugins: [
+        argsValidatorPlugin({ timeout: 10, timeoutErrorCode: "too-slow" }),
+      ],
+      outputs: false,
+    });
+
+    const { errors: validationErrors } = await graphql({
+      schema,
+      source: `{ user(username: "ahmed") }`,
+    });
+    expect(validationErrors?.[0].extensions?.validationErrors).toEqual({
+      username: ["too-slow", { timeout: 10 }],
+    });
+
+    const { errors: transformErrors } = await graphql({
+      schema,
+      source: `{ user(email: "ahmed@example.com") }`,
+    });
+    expect(transformErrors?.[0].extensions).toEqual({
+      code: "TRANSFORM_TIMEOUT",
+      timeout: 10,
+    });
+  });
+
+  // AbortController is missing before Node 15
+  (typeof AbortController === "undefined" ? test.skip : test)(
+    "in-flight validators are aborted once abortEarly decided the outcome",
+    async () => {
+      const signals: AbortSignal[] = [];
+      const slowValidator: Validator<unknown> = (_, signal) => {
+        signals.push(signal as AbortSignal);
+        return hanging();
+      };
+
+      expect(
+        await findErrors(
+          { a: 1, b: 2 },
+          {
+            a: slowValidator,
+            b: () => Promise.resolve(["invalid", null]),
+          },
+          true
+        )
+      ).toEqual({ b: ["invalid", null] });
+      expect(signals[0].aborted).toBe(true);
+    }
+  );
+
+  test("validators receive no signal where AbortController is missing", async () => {
+    const globals = globalThis as { AbortController?: unknown };
+    const { AbortController } = globals;
+    delete globals.AbortController;
+
+    try {
+      const signals: unknown[] = [];
+
+      expect(
+        await findErrors(
+          { a: 1, b: 2 },
+          {
+            a: (_: unknown, signal?: AbortSignal) => {
+              signals.push(signal);
+              return hanging();
+            },
+            b: () => Promise.resolve(["invalid", null]),
+          },
+          true
+        )
+      ).toEqual({ b: ["invalid", null] });
+      expect(signals).toEqual([undefined]);
+    } finally {
+      globals.AbortController = AbortController;
+    }
+  });
+});
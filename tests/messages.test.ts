@@ -0,0 +1,122 @@
+import { graphql } from "graphql";
+import { makeSchema, mutationField } from "nexus";
+
+import {
+  argsValidatorPlugin,
+  formatErrorMessage,
+  interpolateMessage,
+  localizeErrorsTree,
+} from "../src";
+import { maxSize, minSize, range } from "../src/validators";
+
+test("interpolateMessage", () => {
+  expect(
+    interpolateMessage("must be between {lowerBound} and {upperBound}", {
+      lowerBound: 1,
+      upperBound: 5,
+    })
+  ).toBe("must be between 1 and 5");
+
+  expect(interpolateMessage("must be at least {n}", null)).toBe(
+    "must be at least {n}"
+  );
+});
+
+test("formatErrorMessage", () => {
+  const catalogs = {
+    fr: { "min-size": "doit contenir au moins {n} caractères" },
+    en: { "not-unique": (extras: any) => `${extras.value} is already taken` },
+  };
+
+  expect(
+    formatErrorMessage(["min-size", { n: 3 }], "fr-CA", { catalogs })
+  ).toBe("doit contenir au moins 3 caractères");
+  // Falls back to the default locale
+  expect(formatErrorMessage(["max-size", { n: 3 }], "fr", { catalogs })).toBe(
+    "length must be at most 3"
+  );
+  expect(
+    formatErrorMessage(["not-unique", { value: "ahmed" }], null, { catalogs })
+  ).toBe("ahmed is already taken");
+  expect(formatErrorMessage(["unknown", null], "en")).toBeUndefined();
+});
+
+test("localizeErrorsTree", () => {
+  expect(
+    localizeErrorsTree(
+      {
+        age: ["min", { n: 18 }],
+        user: {
+          tags: {
+            1: [
+              ["non-empty", null],
+              ["unknown", null],
+            ],
+          },
+        },
+      },
+      "en"
+    )
+  ).toEqual({
+    age: ["min", { n: 18 }, "must be at least 18"],
+    user: {
+      tags: {
+        1: [
+          ["non-empty", null, "must not be empty"],
+          ["unknown", null],
+        ],
+      },
+    },
+  });
+});
+
+test("plugin attaches messages in the locale of the request", async () => {
+  const schema = makeSchema({
+    types: [
+      mutationField("createUser", {
+        type: "String",
+        args: { username: "String", age: "Int" },
+        resolve: () => "ok",
+        ...({
+          validate: {
+            username: [minSize(3), maxSize(10)],
+            age: range(18, 99),
+          },
+        } as Record<string, unknown>),
+      }),
+    ],
+    plugins: [
+      argsValidatorPlugin({
+        flattenErrors: true,
+        messages: {
+          catalogs: {
+            fr: { "min-size": "doit contenir au moins {n} caractères" },
+          },
+          getLocale: (ctx: any) => ctx.locale,
+        },
+      }),
+    ],
+    outputs: false,
+  });
+
+  const { errors } = await graphql({
+    schema,
+    source: `mutation { createUser(username: "ah", age: 5) }`,
+    contextValue: { locale: "fr" },
+  });
+
+  expect(errors?.[0].extensions?.validationErrors).toEqual([
+    {
+      path: ["username"],
+      code: "min-size",
+      extras: { n: 3 },
+      message: "doit contenir au moins 3 caractères",
+    },
+    {
+      path: ["age"],
+      code: "range",
+      extras: { lowerBound: 18, upperBound: 99 },
+      message: "must be between 18 and 99",
+    },
+  ]);
+});
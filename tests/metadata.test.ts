@@ -0,0 +1,187 @@
+import { existsSync, mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { inputObjectType, makeSchema, mutationField, nonNull } from "nexus";
+
+import {
+  argsValidatorPlugin,
+  each,
+  getValidationMetadata,
+  VALIDATION_METADATA_EXTENSION,
+} from "../src";
+import { collectValidationMetadata } from "../src/metadata";
+import { maxSize, min, nonEmpty, rangeSize } from "../src/validators";
+
+const outputPath = join(
+  mkdtempSync(join(tmpdir(), "validation-metadata-")),
+  "validation-metadata.json"
+);
+
+const schema = makeSchema({
+  types: [
+    inputObjectType({
+      name: "ProfileInput",
+      definition(t) {
+        t.string("bio", { validate: maxSize(200) } as any);
+      },
+    }),
+    inputObjectType({
+      name: "UserInput",
+      definition(t) {
+        t.nonNull.string("username", {
+          constraints: { length: { min: 3, max: 20 } },
+        } as any);
+        t.list.nonNull.field("profiles", { type: "ProfileInput" });
+        t.int("age");
+      },
+    }),
+    mutationField("createUser", {
+      type: "String",
+      args: { user: nonNull("UserInput") },
+      resolve: () => "ok",
+      ...({
+        validate: { user: { age: min(18) } },
+      } as Record<string, unknown>),
+    }),
+    mutationField("updateUser", {
+      type: "String",
+      args: { user: nonNull("UserInput") },
+      resolve: () => "ok",
+      ...({
+        // Resolvers are not included in the metadata
+        validate: () => ({ user: { age: min(21) } }),
+      } as Record<string, unknown>),
+    }),
+  ],
+  plugins: [
+    argsValidatorPlugin({
+      validationMetadata: { extensions: true, outputPath },
+    }),
+  ],
+  outputs: false,
+});
+
+const userInputMetadata = {
+  "user.username": [
+    { code: "range-size", extras: { lowerBound: 3, upperBound: 20 } },
+  ],
+  "user.profiles.*.bio": [{ code: "max-size", extras: { n: 200 } }],
+};
+
+test("collectValidationMetadata", () => {
+  expect(
+    collectValidationMetadata({
+      firstName: [
+        rangeSize(8, 12),
+        (arg: string) => (arg ? undefined : ["x", null]),
+      ],
+      teamsIds: each(nonEmpty()),
+    })
+  ).toStrictEqual({
+    firstName: [
+      { code: "range-size", extras: { lowerBound: 8, upperBound: 12 } },
+    ],
+    "teamsIds.*": [{ code: "non-empty", extras: null }],
+  });
+});
+
+test("getValidationMetadata", () => {
+  const manifest = {
+    "Mutation.createUser": {
+      ...userInputMetadata,
+      "user.age": [{ code: "min", extras: { n: 18 } }],
+    },
+    "Mutation.updateUser": userInputMetadata,
+  };
+
+  expect(getValidationMetadata(schema)).toStrictEqual(manifest);
+
+  expect(JSON.parse(readFileSync(outputPath, "utf8"))).toStrictEqual(manifest);
+
+  expect(
+    schema.getMutationType()?.getFields().createUser.extensions[
+      VALIDATION_METADATA_EXTENSION
+    ]
+  ).toStrictEqual(manifest["Mutation.createUser"]);
+});
+
+test("validation metadata is not written unless shouldGenerateArtifacts", () => {
+  const skippedOutputPath = join(
+    mkdtempSync(join(tmpdir(), "validation-metadata-")),
+    "validation-metadata.json"
+  );
+
+  const skippedSchema = makeSchema({
+    types: [
+      mutationField("rename", {
+        type: "String",
+        args: { name: "String" },
+        resolve: () => "ok",
+        ...({ validate: { name: maxSize(20) } } as Record<string, unknown>),
+      }),
+    ],
+    plugins: [
+      argsValidatorPlugin({
+        shouldGenerateArtifacts: false,
+        validationMetadata: { extensions: true, outputPath: skippedOutputPath },
+        clientValidators: { outputPath: skippedOutputPath },
+      }),
+    ],
+    outputs: false,
+  });
+
+  expect(existsSync(skippedOutputPath)).toBe(false);
+
+  expect(
+    skippedSchema.getMutationType()?.getFields().rename.extensions[
+      VALIDATION_METADATA_EXTENSION
+    ]
+  ).toStrictEqual({ name: [{ code: "max-size", extras: { n: 20 } }] });
+});
+
+test("getValidationMetadata includes scalar rules", () => {
+  const metadata = getValidationMetadata(schema, {
+    String: { validate: maxSize(10000) },
+  });
+
+  expect(metadata["Mutation.updateUser"]).toStrictEqual({
+    "user.username": [
+      { code: "max-size", extras: { n: 10000 } },
+      { code: "range-size", extras: { lowerBound: 3, upperBound: 20 } },
+    ],
+    "user.profiles.*.bio": [
+      { code: "max-size", extras: { n: 10000 } },
+      { code: "max-size", extras: { n: 200 } },
+    ],
+  });
+});
+
+test("recursive input types are referenced where they repeat", () => {
+  const recursiveSchema = makeSchema({
+    types: [
+      inputObjectType({
+        name: "Filter",
+        definition(t) {
+          t.string("name", { validate: maxSize(20) } as any);
+          t.field("not", { type: "Filter" });
+          t.list.nonNull.field("and", { type: "Filter" });
+        },
+      }),
+      mutationField("deleteUsers", {
+        type: "String",
+        args: { filter: "Filter" },
+        resolve: () => "ok",
+      }),
+    ],
+    plugins: [argsValidatorPlugin()],
+    outputs: false,
+  });
+
+  expect(
+    getValidationMetadata(recursiveSchema)["Mutation.deleteUsers"]
+  ).toStrictEqual({
+    "filter.name": [{ code: "max-size", extras: { n: 20 } }],
+    "filter.not": { ref: "filter" },
+    "filter.and.*": { ref: "filter" },
+  });
+});
@@ -0,0 +1,116 @@
+import { buildSchema, graphql, GraphQLInputObjectType } from "graphql";
+import { inputObjectType, list, makeSchema, nonNull, queryField } from "nexus";
+
+import { argsValidatorPlugin, OneOfInput } from "../src";
+import { isOneOfInputType, narrowOneOfInputs } from "../src/oneOf";
+
+const schema = makeSchema({
+  types: [
+    inputObjectType({
+      name: "UserWhereUniqueInput",
+      definition(t) {
+        t.id("id");
+        t.string("email");
+        t.string("username");
+      },
+      ...({ oneOf: true } as Record<string, unknown>),
+    }),
+    queryField("user", {
+      type: "String",
+      args: {
+        where: "UserWhereUniqueInput",
+        friends: list(nonNull("UserWhereUniqueInput")),
+      },
+      resolve: (_, args) => JSON.stringify(args),
+    }),
+  ],
+  plugins: [argsValidatorPlugin()],
+  outputs: false,
+});
+
+const source = `
+  query ($where: UserWhereUniqueInput, $friends: [UserWhereUniqueInput!]) {
+    user(where: $where, friends: $friends)
+  }
+`;
+
+test("exactly one field of oneOf input objects has to be set", async () => {
+  const error = ["exactly-one-of", { keys: "id,email,username" }];
+
+  const { errors } = await graphql({
+    schema,
+    source,
+    variableValues: {
+      where: { id: "1", email: "ahmed@example.com" },
+      friends: [{ username: null }],
+    },
+  });
+
+  expect(errors?.[0].extensions?.validationErrors).toEqual({
+    where: { id: error, email: error },
+    friends: { 0: { id: error, email: error, username: error } },
+  });
+
+  // The input object itself is optional
+  expect(await graphql({ schema, source })).toEqual({
+    data: { user: "{}" },
+  });
+});
+
+test("null fields are removed from the args passed to the resolver", async () => {
+  expect(
+    await graphql({
+      schema,
+      source,
+      variableValues: {
+        where: { id: null, email: "ahmed@example.com", username: null },
+        friends: [{ id: "2" }, { id: null, username: "osama" }],
+      },
+    })
+  ).toEqual({
+    data: {
+      user: JSON.stringify({
+        where: { email: "ahmed@example.com" },
+        friends: [{ id: "2" }, { username: "osama" }],
+      }),
+    },
+  });
+
+  const args = { where: { id: "1" } };
+  expect(
+    narrowOneOfInputs(args, schema.getQueryType()!.getFields().user.args as any)
+  ).toBe(args);
+});
+
+test("@oneOf directive", () => {
+  const sdlSchema = buildSchema(`
+    directive @oneOf on INPUT_OBJECT
+
+    input UserWhereUniqueInput @oneOf {
+      id: ID
+      email: String
+    }
+
+    type Query {
+      user(where: UserWhereUniqueInput): String
+    }
+  `);
+
+  expect(
+    isOneOfInputType(
+      sdlSchema.getType("UserWhereUniqueInput") as GraphQLInputObjectType
+    )
+  ).toBe(true);
+});
+
+test("OneOfInput", () => {
+  type Where = OneOfInput<{ id?: string | null; email?: string | null }>;
+
+  const byId: Where = { id: "1" };
+  // @ts-expect-error Both fields are set
+  const byBoth: Where = { id: "1", email: "ahmed@example.com" };
+  // @ts-expect-error No field is set
+  const byNone: Where = {};
+
+  expect([byId, byBoth, byNone]).toHaveLength(3);
+});
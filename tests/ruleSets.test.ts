@@ -0,0 +1,157 @@
+import {
+  applyTransforms,
+  extend,
+  extendRules,
+  findErrors,
+  mergeRules,
+  omitRules,
+  pickRules,
+  prefixRules,
+  TransformerRuleSet,
+  validateObject,
+  ValidatorRuleSet,
+} from "../src";
+import { trim, uppercase } from "../src/transformers";
+import {
+  atLeastOneOf,
+  max,
+  maxSize,
+  minSize,
+  pattern,
+} from "../src/validators";
+
+interface Address {
+  street: string;
+  city: string;
+  zip?: string | null;
+}
+
+const addressRules: ValidatorRuleSet<Address> = validateObject(
+  atLeastOneOf(["zip"]),
+  {
+    street: maxSize(10),
+    city: minSize(2),
+    zip: pattern(/^\d{5}$/),
+  }
+);
+
+const address = { street: "Main street 1", city: "C", zip: "1234" };
+
+test("mergeRules replaces rules at the same path only", () => {
+  const tree = mergeRules(prefixRules("address", addressRules), {
+    address: { zip: pattern(/^\d{4}$/) },
+  });
+
+  expect(findErrors({ address }, tree, false)).toEqual({
+    address: {
+      street: ["max-size", { n: 10 }],
+      city: ["min-size", { n: 2 }],
+    },
+  });
+});
+
+test("mergeRules and extendRules add the rules of other keys", () => {
+  const tree = mergeRules(
+    prefixRules("billingAddress", addressRules),
+    prefixRules("shippingAddress", omitRules(addressRules, ["zip"]))
+  );
+
+  expect(
+    findErrors(
+      { billingAddress: address, shippingAddress: address },
+      tree,
+      false
+    )
+  ).toEqual({
+    billingAddress: {
+      street: ["max-size", { n: 10 }],
+      city: ["min-size", { n: 2 }],
+      zip: ["pattern", { regexp: "^\\d{5}$" }],
+    },
+    shippingAddress: {
+      street: ["max-size", { n: 10 }],
+      city: ["min-size", { n: 2 }],
+    },
+  });
+
+  const contactRules: ValidatorRuleSet<{ phone?: string | null }> = {
+    phone: pattern(/^\+/),
+  };
+
+  expect(
+    findErrors(
+      { ...address, phone: "0" },
+      extendRules(addressRules, contactRules),
+      false
+    )
+  ).toMatchObject({ phone: ["pattern", { regexp: "^\\+" }] });
+});
+
+test("mergeRules keeps the rules of the base tree for extend nodes", () => {
+  const tree = mergeRules(addressRules, { street: extend(pattern(/^\d/)) });
+
+  expect(findErrors(address, tree, false)).toMatchObject({
+    street: ["max-size", { n: 10 }],
+  });
+  expect(findErrors({ ...address, street: "Main" }, tree, false)).toMatchObject(
+    { street: ["pattern", { regexp: "^\\d" }] }
+  );
+});
+
+test("extendRules keeps the rules of both trees", () => {
+  const tree = extendRules(addressRules, { street: pattern(/^\d/) });
+
+  // The rules of the base tree run first
+  expect(findErrors(address, tree, false)).toMatchObject({
+    street: ["max-size", { n: 10 }],
+  });
+  expect(findErrors({ ...address, street: "Main" }, tree, false)).toMatchObject(
+    { street: ["pattern", { regexp: "^\\d" }] }
+  );
+});
+
+test("pickRules and omitRules keep the object validator", () => {
+  expect(
+    findErrors(
+      { ...address, zip: null },
+      pickRules(addressRules, ["city"]),
+      false
+    )
+  ).toEqual({
+    city: ["min-size", { n: 2 }],
+    zip: ["at-least-one-of", { keys: "zip" }],
+  });
+
+  expect(
+    findErrors(address, omitRules(addressRules, ["street", "city"]), false)
+  ).toEqual({ zip: ["pattern", { regexp: "^\\d{5}$" }] });
+
+  // @ts-expect-error Unknown key
+  pickRules(addressRules, ["country"]);
+});
+
+test("mergeRules and extendRules type check the rules of the base tree", () => {
+  mergeRules(prefixRules("address", addressRules), {
+    // @ts-expect-error Unknown nested key
+    address: { zpi: pattern(/^\d{4}$/) },
+  });
+  // @ts-expect-error Validator of another type
+  extendRules(addressRules, { city: max(3) });
+  // @ts-expect-error Transformer instead of validator
+  extendRules(addressRules, { city: trim });
+});
+
+test("transformer rule sets", async () => {
+  const trimRules: TransformerRuleSet<Address> = { street: trim, city: trim };
+  const tree = prefixRules(
+    "address",
+    extendRules(trimRules, { city: uppercase })
+  );
+
+  expect(
+    await applyTransforms(
+      { address: { street: " Main street ", city: " cairo " } },
+      tree
+    )
+  ).toEqual({ address: { street: "Main street", city: "CAIRO" } });
+});
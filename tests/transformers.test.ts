@@ -0,0 +1,152 @@
+import { Transformer } from "../src";
+import {
+  abs,
+  capitalize,
+  collapseWhitespace,
+  emptyToNull,
+  escapeHtml,
+  normalizeUnicode,
+  removeDiacritics,
+  replace,
+  slugify,
+  slugifyNullable,
+  stripHtml,
+  trim,
+  truncate,
+  ceil,
+  clamp,
+  clampNullable,
+  compact,
+  defineTransformer,
+  dedupe,
+  floor,
+  limit,
+  nullable,
+  round,
+  sortBy,
+  startOfDay,
+  toFixedPrecision,
+  toUTC,
+  truncateDate,
+} from "../src/transformers";
+
+describe("nullable transformers", () => {
+  test("nullable", () => {
+    const trimNullable = nullable(trim);
+
+    expect(trimNullable(" a ")).toBe("a");
+    expect(trimNullable(null)).toBeNull();
+    expect(trimNullable(undefined)).toBeUndefined();
+  });
+
+  test("nullability strategies", () => {
+    const transform = jest.fn((arg) => (arg === "" ? null : arg));
+
+    defineTransformer<string>(transform)(null);
+    expect(transform).not.toHaveBeenCalled();
+
+    expect(
+      defineTransformer<string, "strict">(transform, "strict")("")
+    ).toBeNull();
+    defineTransformer<string, "strict">(transform, "strict")(undefined);
+    expect(transform).toHaveBeenLastCalledWith(undefined);
+
+    defineTransformer<string, "strict-with-null">(
+      transform,
+      "strict-with-null"
+    )(undefined);
+    expect(transform).toHaveBeenLastCalledWith(null);
+  });
+});
+
+test("string transformers", () => {
+  expect(normalizeUnicode()("e\u0301")).toBe("\u00e9");
+  expect(normalizeUnicode("NFD")("\u00e9")).toBe("e\u0301");
+  expect(collapseWhitespace(" a \n\t b ")).toBe(" a b ");
+  expect(removeDiacritics("Crème Brûlée")).toBe("Creme Brulee");
+  expect(slugify(" Crème Brûlée Recipe! ")).toBe("creme-brulee-recipe");
+  expect(slugifyNullable(null)).toBeNull();
+  expect(stripHtml('<p>Hi <b>there</b></p><script>alert("x")</script>')).toBe(
+    "Hi there"
+  );
+  expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+    "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;"
+  );
+  expect(truncate(8, "...")("Hello world")).toBe("Hello...");
+  expect(truncate(3)("a😀bc")).toBe("a😀b");
+  expect(truncate(20)("Hello")).toBe("Hello");
+  expect(truncate(2, "...")("Hello")).toBe("..");
+  expect(replace(".", "-")("a.b.c")).toBe("a-b-c");
+  expect(replace(/\d/, "#")("a1b2")).toBe("a#b2");
+  expect(capitalize("hello world")).toBe("Hello world");
+  expect(emptyToNull("")).toBeNull();
+  expect(emptyToNull("a")).toBe("a");
+});
+
+describe("number transformers", () => {
+  test("clamp treats 0 as a bound", () => {
+    expect(clamp(0, 10)(-5)).toBe(0);
+    expect(clamp(-10, 0)(5)).toBe(0);
+    expect(clampNullable(0, 10)(-5)).toBe(0);
+    expect(clampNullable(1, 10)(0)).toBe(1);
+    expect(clampNullable(1, 10)(null)).toBeNull();
+  });
+
+  test("rounding", () => {
+    expect(round(1.5)).toBe(2);
+    expect(floor(1.9)).toBe(1);
+    expect(ceil(1.1)).toBe(2);
+    expect(abs(-3)).toBe(3);
+    expect(toFixedPrecision(2)(1.005)).toBe(1.01);
+    expect(toFixedPrecision(2)(1e-7)).toBe(0);
+  });
+});
+
+test("array transformers", () => {
+  expect(dedupe()(["a", "b", "a"])).toEqual(["a", "b"]);
+  expect(
+    dedupe((user: { id: number; name: string }) => user.id)([
+      { id: 1, name: "a" },
+      { id: 1, name: "b" },
+    ])
+  ).toEqual([{ id: 1, name: "a" }]);
+  expect(compact(["a", null, "b", undefined])).toEqual(["a", "b"]);
+  expect(
+    sortBy(
+      (user: { age: number }) => user.age,
+      "desc"
+    )([{ age: 1 }, { age: 3 }])
+  ).toEqual([{ age: 3 }, { age: 1 }]);
+  expect(limit(2)([1, 2, 3])).toEqual([1, 2]);
+});
+
+describe("date transformers", () => {
+  test("keep the kind of the arg", () => {
+    const transformer: Transformer<string> = startOfDay;
+
+    expect(transformer("2024-05-01T10:35:20+02:00")).toBe(
+      "2024-05-01T00:00:00.000Z"
+    );
+    expect(startOfDay(new Date("2024-05-01T10:35:20Z"))).toEqual(
+      new Date("2024-05-01T00:00:00Z")
+    );
+    expect(startOfDay(null)).toBeNull();
+    expect(startOfDay("invalid")).toBe("invalid");
+  });
+
+  test("toUTC", () => {
+    expect(toUTC("2024-05-01T02:00:00+02:00")).toBe("2024-05-01T00:00:00.000Z");
+  });
+
+  test("truncateDate", () => {
+    expect(truncateDate("hour")("2024-05-01T10:35:20Z")).toBe(
+      "2024-05-01T10:00:00.000Z"
+    );
+    expect(truncateDate("month")("2024-05-21T10:35:20Z")).toBe(
+      "2024-05-01T00:00:00.000Z"
+    );
+    expect(truncateDate("year")(new Date("2024-05-21T10:35:20Z"))).toEqual(
+      new Date("2024-01-01T00:00:00Z")
+    );
+  });
+});
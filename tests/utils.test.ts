@@ -1,4 +1,9 @@
-import { assignObjectAt, mapObject, reduceAsync } from "../src/utils";
+import {
+  assignObjectAt,
+  createBatchLoader,
+  mapObject,
+  reduceAsync,
+} from "../src/utils";
 
 test("assignObjectAt", () => {
   expect(assignObjectAt({}, ["c", "e"], 8)).toStrictEqual({
@@ -331,3 +336,50 @@ describe("mapObject", () => {
     });
   });
 });
+
+describe("createBatchLoader", () => {
+  test("keys of the same tick are loaded in one batch", async () => {
+    const load = jest.fn((keys: number[]) => keys.map((key) => key * 2));
+    const loader = createBatchLoader(load);
+
+    const values = await Promise.all([
+      loader(1),
+      loader(2),
+      loader(1),
+      Promise.resolve().then(() => loader(3)),
+    ]);
+
+    expect(values).toEqual([2, 4, 2, 6]);
+    expect(load.mock.calls).toEqual([[[1, 2, 3]]]);
+
+    // Cached
+    expect(await loader(2)).toBe(4);
+    expect(await loader(4)).toBe(8);
+    expect(load.mock.calls).toEqual([[[1, 2, 3]], [[4]]]);
+  });
+
+  test("cacheKey and cache", async () => {
+    const load = jest.fn(async (keys: { id: string }[]) =>
+      keys.map((key) => key.id)
+    );
+    const loader = createBatchLoader(load, (key) => key.id, false);
+
+    expect(
+      await Promise.all([loader({ id: "a" }), loader({ id: "a" })])
+    ).toEqual(["a", "a"]);
+    expect(await loader({ id: "a" })).toBe("a");
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  test("failed batches are rejected and not cached", async () => {
+    let fail = true;
+    const loader = createBatchLoader((keys: number[]) => (fail ? [] : keys));
+
+    await expect(loader(1)).rejects.toThrow(
+      "Batch load function must return an array of 1 values, one for each key"
+    );
+
+    fail = false;
+    expect(await loader(1)).toBe(1);
+  });
+});
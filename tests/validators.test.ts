@@ -0,0 +1,343 @@
+import { each, findErrors } from "../src";
+import {
+  after,
+  alphanumeric,
+  atLeastOneOf,
+  exactlyOneOf,
+  forbidden,
+  notNull,
+  notUndefined,
+  required,
+  before,
+  dateRange,
+  fromNow,
+  isoDate,
+  maxSpan,
+  multipleOf,
+  nonNegative,
+  notInPast,
+  weekday,
+  contains,
+  defineBatchValidator,
+  email,
+  endsWith,
+  finite,
+  getValidatorMetadata,
+  hexColor,
+  includesAll,
+  includesNone,
+  integer,
+  ipAddress,
+  nullableValidator,
+  oneOf,
+  phoneE164,
+  positive,
+  precision,
+  range,
+  slug,
+  sorted,
+  startsWith,
+  subsetOf,
+  unique,
+  url,
+  uuid,
+  withTimeout,
+} from "../src/validators";
+
+describe("presence validators", () => {
+  test.each([
+    [required(), [0, ""], [null, undefined], ["required", null]],
+    [notNull(), [undefined, ""], [null], ["not-null", null]],
+    [notUndefined(), [null, false], [undefined], ["not-undefined", null]],
+    [forbidden(), [undefined], [null, 0], ["forbidden", null]],
+  ])("%#", (validator, validValues, invalidValues, error) => {
+    for (const validValue of validValues) {
+      expect(validator(validValue)).toBeUndefined();
+    }
+    for (const invalidValue of invalidValues) {
+      expect(validator(invalidValue)).toEqual(error);
+    }
+  });
+
+  test("atLeastOneOf", () => {
+    const validator = atLeastOneOf(["email", "phone"]);
+    const error = ["at-least-one-of", { keys: "email,phone" }];
+
+    expect(validator({ email: null, phone: "+1" })).toBeUndefined();
+    expect(validator({ email: null })).toEqual({ email: error, phone: error });
+    expect(validator(undefined as any)).toEqual({ email: error, phone: error });
+  });
+
+  test("exactlyOneOf", () => {
+    const validator = exactlyOneOf(["userId", "teamId", "email"]);
+    const error = ["exactly-one-of", { keys: "userId,teamId,email" }];
+
+    expect(validator({ teamId: "1", email: null })).toBeUndefined();
+    expect(validator({ userId: "1", teamId: "1" })).toEqual({
+      userId: error,
+      teamId: error,
+    });
+    expect(validator({})).toEqual({
+      userId: error,
+      teamId: error,
+      email: error,
+    });
+  });
+});
+
+describe("batch validators", () => {
+  const takenUsernames = ["ahmed", "osama"];
+  const errorConditions = jest.fn(
+    async (usernames: string[], _ctx: { requestId: number }) =>
+      usernames.map((username) => takenUsernames.includes(username))
+  );
+  const uniqueUsername = defineBatchValidator("not-unique", errorConditions, {
+    key: (username) => username.toLowerCase(),
+  });
+
+  beforeEach(() => errorConditions.mockClear());
+
+  test("checks of the same context are batched and deduplicated", async () => {
+    const ctx = { requestId: 1 };
+    const users = ["ahmed", "mona", "AHMED", null, ...takenUsernames].map(
+      (username) => ({ username })
+    );
+
+    expect(
+      await findErrors(
+        { users },
+        { users: each({ username: uniqueUsername(ctx) }) },
+        false
+      )
+    ).toEqual({
+      users: {
+        0: { username: ["not-unique", null] },
+        // Same key as "ahmed"
+        2: { username: ["not-unique", null] },
+        4: { username: ["not-unique", null] },
+        5: { username: ["not-unique", null] },
+      },
+    });
+    expect(errorConditions.mock.calls).toEqual([
+      [["ahmed", "mona", "osama"], ctx],
+    ]);
+
+    // Cached for the context
+    expect(await uniqueUsername(ctx)("mona")).toBeUndefined();
+    expect(errorConditions).toHaveBeenCalledTimes(1);
+
+    expect(await uniqueUsername({ requestId: 2 })("mona")).toBeUndefined();
+    expect(errorConditions).toHaveBeenCalledTimes(2);
+  });
+});
+
+test("withTimeout", async () => {
+  const validator = withTimeout(
+    (arg: number) =>
+      new Promise((resolve) =>
+        setTimeout(() => resolve(arg > 0 ? ["positive", null] : undefined), arg)
+      ),
+    20
+  );
+
+  expect(await validator(0)).toBeUndefined();
+  expect(await validator(1)).toEqual(["positive", null]);
+  expect(await validator(50)).toEqual(["validation-timeout", { timeout: 20 }]);
+});
+
+test("nullableValidator", () => {
+  const validator = nullableValidator((arg: string) =>
+    arg.length > 3 ? ["too-long", null] : undefined
+  );
+
+  expect(validator(null)).toBeUndefined();
+  expect(validator(undefined)).toBeUndefined();
+  expect(validator("abcd")).toEqual(["too-long", null]);
+
+  // Metadata is kept
+  expect(getValidatorMetadata(nullableValidator(slug()))).toEqual(
+    getValidatorMetadata(slug())
+  );
+});
+
+describe("string validators", () => {
+  test.each([
+    [email(), "ahmed@example.com", "not-an-email", ["email", null]],
+    [email(), "a.b+c@sub.example.co", "ahmed@localhost", ["email", null]],
+    [
+      url(),
+      "https://example.com/path?q=1",
+      "ftp://example.com",
+      ["url", { protocols: "http,https" }],
+    ],
+    [
+      url(["ftp"]),
+      "ftp://example.com",
+      "example.com",
+      ["url", { protocols: "ftp" }],
+    ],
+    [
+      uuid(),
+      "123e4567-e89b-12d3-a456-426614174000",
+      "123e4567",
+      ["uuid", null],
+    ],
+    [
+      uuid(4),
+      "9b2f4a1e-3c5d-4e6f-8a7b-1c2d3e4f5a6b",
+      "123e4567-e89b-12d3-a456-426614174000",
+      ["uuid", { version: 4 }],
+    ],
+    [slug(), "my-first-post", "My--post", ["slug", null]],
+    [alphanumeric(), "abc123", "abc 123", ["alphanumeric", null]],
+    [hexColor(), "#ffffff80", "#ggg", ["hex-color", null]],
+    [ipAddress(), "::1", "256.1.1.1", ["ip-address", null]],
+    [ipAddress(4), "192.168.1.1", "::1", ["ip-address", { version: 4 }]],
+    [
+      ipAddress(6),
+      "2001:db8::ff00:42:8329",
+      "2001:db8:::1",
+      ["ip-address", { version: 6 }],
+    ],
+    [phoneE164(), "+14155552671", "0123456789", ["phone-e164", null]],
+    [startsWith("ab"), "abc", "cab", ["starts-with", { prefix: "ab" }]],
+    [endsWith("bc"), "abc", "bca", ["ends-with", { suffix: "bc" }]],
+    [contains("b"), "abc", "acd", ["contains", { substring: "b" }]],
+    [oneOf(["a", "b"]), "a", "c", ["one-of", { values: "a,b" }]],
+  ])("%#", (validator, validValue, invalidValue, error) => {
+    expect(validator(validValue)).toBeUndefined();
+    expect(validator(invalidValue)).toEqual(error);
+    expect(validator(null)).toBeUndefined();
+  });
+});
+
+describe("date validators", () => {
+  test.each([
+    [isoDate(), "2024-05-01", "2024-02-30", ["iso-date", null]],
+    [isoDate(), "2024-05-01T10:00:00+02:00", "01/05/2024", ["iso-date", null]],
+    [isoDate(), new Date(), new Date("invalid"), ["iso-date", null]],
+    [
+      before("2024-01-01"),
+      "2023-12-31",
+      new Date("2024-01-01"),
+      ["before", { date: "2024-01-01T00:00:00.000Z" }],
+    ],
+    [
+      after(fromNow({ days: 1 })),
+      new Date(Date.now() + 2 * 86400000),
+      new Date().toISOString(),
+      ["after", { date: "now+86400000" }],
+    ],
+    [
+      dateRange("2024-01-01", "2024-12-31"),
+      "2024-06-15",
+      "2025-01-01",
+      [
+        "date-range",
+        { start: "2024-01-01T00:00:00.000Z", end: "2024-12-31T00:00:00.000Z" },
+      ],
+    ],
+    [
+      notInPast("day"),
+      new Date().toISOString().slice(0, 10),
+      "2000-01-01",
+      ["not-in-past", { granularity: "day" }],
+    ],
+    // 2024-05-03 is Friday
+    [weekday(), "2024-05-03", "2024-05-04", ["weekday", { days: "1,2,3,4,5" }]],
+  ])("%#", (validator, validValue, invalidValue, error) => {
+    expect(validator(validValue)).toBeUndefined();
+    expect(validator(invalidValue)).toEqual(error);
+    expect(validator(undefined)).toBeUndefined();
+  });
+
+  test("maxSpan", () => {
+    const validator = maxSpan("startDate", "endDate", { days: 7 });
+
+    expect(
+      validator({ startDate: "2024-05-01", endDate: new Date("2024-05-08") })
+    ).toBeUndefined();
+    expect(
+      validator({ startDate: "2024-05-01", endDate: null })
+    ).toBeUndefined();
+    expect(
+      validator({ startDate: "2024-05-01", endDate: "2024-05-09" })
+    ).toEqual({
+      endDate: ["max-span", { start: "startDate", maxSpanMs: 604800000 }],
+    });
+  });
+});
+
+test("array validators only compare primitive values", () => {
+  // @ts-expect-error Objects are compared by reference
+  includesAll([{ id: "1" }]);
+  // @ts-expect-error Objects are compared by reference
+  subsetOf([{ id: "1" }]);
+
+  expect(includesNone([1, 2])([3])).toBeUndefined();
+});
+
+describe("number validators", () => {
+  test.each([
+    [range(0, 10), 0, 11, ["range", { lowerBound: 0, upperBound: 10 }]],
+    [
+      range(0, 10, "range", { lowerExclusive: true }),
+      10,
+      0,
+      ["range", { lowerBound: 0, upperBound: 10, lowerExclusive: true }],
+    ],
+    [
+      range(0, 10, "range", { upperExclusive: true }),
+      0,
+      10,
+      ["range", { lowerBound: 0, upperBound: 10, upperExclusive: true }],
+    ],
+    [integer(), -3, 1.5, ["integer", null]],
+    [positive(), 0.1, 0, ["positive", null]],
+    [nonNegative(), 0, -0.1, ["non-negative", null]],
+    [multipleOf(0.1), 0.3, 0.35, ["multiple-of", { n: 0.1 }]],
+    [precision(2), 1.25, 1.255, ["precision", { maxDecimals: 2 }]],
+    [precision(0), 1e21, 1e-7, ["precision", { maxDecimals: 0 }]],
+    [finite(), 1, Infinity, ["finite", null]],
+  ])("%#", (validator, validValue, invalidValue, error) => {
+    expect(validator(validValue)).toBeUndefined();
+    expect(validator(invalidValue)).toEqual(error);
+    expect(validator(null)).toBeUndefined();
+  });
+});
+
+describe("array validators", () => {
+  test.each([
+    [unique(), ["a", "b"], ["a", "b", "a"], ["unique", null]],
+    [
+      unique((profile: { id: string }) => profile.id),
+      [{ id: "1" }, { id: "2" }],
+      [{ id: "1" }, { id: "1" }],
+      ["unique", null],
+    ],
+    [
+      includesAll(["a", "b"]),
+      ["b", "c", "a"],
+      ["a"],
+      ["includes-all", { values: "a,b" }],
+    ],
+    [
+      includesNone(["a"]),
+      ["b"],
+      ["b", "a"],
+      ["includes-none", { values: "a" }],
+    ],
+    [subsetOf([1, 2, 3]), [3, 1], [1, 4], ["subset-of", { allowed: "1,2,3" }]],
+    [sorted(), [1, 2, 2, 3], [2, 1], ["sorted", { direction: "asc" }]],
+    [
+      sorted("desc", (user: { age: number }) => user.age),
+      [{ age: 30 }, { age: 20 }],
+      [{ age: 20 }, { age: 30 }],
+      ["sorted", { direction: "desc" }],
+    ],
+  ])("%#", (validator: any, validValue, invalidValue, error) => {
+    expect(validator(validValue)).toBeUndefined();
+    expect(validator(invalidValue)).toEqual(error);
+    expect(validator(null)).toBeUndefined();
+  });
+});